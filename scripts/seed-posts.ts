@@ -0,0 +1,39 @@
+// Loads posts into the blog_posts table with the service role key.
+//
+//   npm run seed:posts                   the posts the blog started with
+//   npm run seed:posts -- posts.json     posts from a JSON file holding an array
+//   npm run seed:posts -- --overwrite    also replace posts whose slug exists
+import { readFile } from "node:fs/promises";
+import { loadEnvConfig } from "@next/env";
+
+async function main() {
+  loadEnvConfig(process.cwd());
+  // Imported once the env is loaded, the Supabase clients read it on import
+  const { importPosts } = await import("@/lib/posts/import");
+  const { SEED_POSTS } = await import("@/lib/posts/seed-data");
+
+  const args = process.argv.slice(2);
+  const overwrite = args.includes("--overwrite");
+  const file = args.find((arg) => !arg.startsWith("--"));
+  const posts: unknown = file ? JSON.parse(await readFile(file, "utf8")) : SEED_POSTS;
+  if (!Array.isArray(posts)) {
+    throw new Error(`${file} should hold an array of posts`);
+  }
+
+  const report = await importPosts(posts, { overwrite });
+  console.log(`Created ${report.created.length}, updated ${report.updated.length}, skipped ${report.skipped.length} existing`);
+  for (const slug of report.skipped) {
+    console.log(`  skipped ${slug} (exists, use --overwrite to replace it)`);
+  }
+  for (const { post, message } of report.failed) {
+    console.error(`  failed ${post}: ${message}`);
+  }
+  if (report.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
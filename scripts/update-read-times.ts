@@ -0,0 +1,45 @@
+// Works out the read time of every post again from its word count. Saving
+// a post does this too, this is for posts that have not been saved since
+// read times were counted in words.
+//
+//   npm run posts:read-times
+import { loadEnvConfig } from "@next/env";
+
+async function main() {
+  loadEnvConfig(process.cwd());
+  // Imported once the env is loaded, the Supabase clients read it on import
+  const { TABLES } = await import("@/lib/supabase");
+  const { supabaseAdmin } = await import("@/lib/supabase-admin");
+  const { estimateReadTime } = await import("@/lib/posts/read-time");
+
+  const { data, error } = await supabaseAdmin.from(TABLES.BLOG_POSTS).select("id, slug, content, content_format, read_time");
+  if (error) {
+    throw error;
+  }
+
+  let updated = 0;
+  for (const post of data) {
+    const readTime = estimateReadTime(post.content, post.content_format);
+    if (readTime === post.read_time) {
+      continue;
+    }
+    // updated_at is left alone, the post itself did not change
+    const { error: updateError } = await supabaseAdmin
+      .from(TABLES.BLOG_POSTS)
+      .update({ read_time: readTime })
+      .eq("id", post.id);
+    if (updateError) {
+      console.error(`  failed ${post.slug}: ${updateError.message}`);
+      process.exitCode = 1;
+      continue;
+    }
+    console.log(`  ${post.slug}: ${post.read_time} -> ${readTime}`);
+    updated++;
+  }
+  console.log(`Updated ${updated} of ${data.length} posts`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
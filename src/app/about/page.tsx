@@ -3,28 +3,34 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { CheckCircle2, Users } from "lucide-react"
+import { listAuthors } from "@/lib/authors/queries"
+import { authorHref } from "@/lib/posts/listing"
 
-// Team data
+// Team data, author is the slug of their profile on the blog
 const team = [
   {
     name: "Mr.Aryan thakur",
     position: "CEO & Founder",
-    image: "/hacks_v5_images/aryannew.jpeg"
+    image: "/hacks_v5_images/aryannew.jpeg",
+    author: "aryan-thakur"
   },
   {
     name: "Ms.Antra",
     position: "Digital Marketing Head",
-    image: "/hacks_v5_images/antra.jpeg"
+    image: "/hacks_v5_images/antra.jpeg",
+    author: "antra"
   },
   {
     name: "Mr.Abhishhek Rai",
     position: "Lead Developer",
-    image: "/hacks_v5_images/Abhishek.jpeg"
+    image: "/hacks_v5_images/Abhishek.jpeg",
+    author: "abhishek-rai"
   },
   {
     name: "Mr.Vimal Singh",
     position: " CTO ",
-    image: "/hacks_v5_images/vimal.jpeg"
+    image: "/hacks_v5_images/vimal.jpeg",
+    author: "vimal-singh"
   }
 ]
 
@@ -56,7 +62,49 @@ const stats = [
   { value: "18+", label: "Awards Won" }
 ]
 
-export default function AboutPage() {
+// Regenerated when an author profile changes, and every five minutes
+export const revalidate = 300
+
+// Slugs of the profiles that exist, members without one are not linked
+async function getAuthorSlugs() {
+  try {
+    const authors = await listAuthors()
+    return new Set(authors.map(author => author.slug))
+  } catch (error) {
+    console.error("Error fetching authors:", error)
+    return new Set<string>()
+  }
+}
+
+// A team member, linking to their author profile when href is set
+function TeamCard({ member, href }: { member: (typeof team)[number]; href: string | null }) {
+  const content = (
+    <>
+      <div className="relative aspect-square rounded-lg overflow-hidden mb-4">
+        <Image
+          src={member.image}
+          alt={member.name}
+          fill
+          className="object-cover transition-transform duration-300 group-hover:scale-105"
+        />
+      </div>
+      <h3 className={`text-xl font-bold ${href ? "group-hover:text-brand-teal transition-colors" : ""}`}>{member.name}</h3>
+      <p className="text-gray-600">{member.position}</p>
+    </>
+  )
+
+  return href ? (
+    <Link href={href} className="group card-hover block">
+      {content}
+    </Link>
+  ) : (
+    <div className="group card-hover">{content}</div>
+  )
+}
+
+export default async function AboutPage() {
+  const authorSlugs = await getAuthorSlugs()
+
   return (
     <div className="flex flex-col">
       {/* Hero Section */}
@@ -201,18 +249,11 @@ export default function AboutPage() {
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
             {team.map((member) => (
-              <div key={member.name} className="group card-hover">
-                <div className="relative aspect-square rounded-lg overflow-hidden mb-4">
-                  <Image
-                    src={member.image}
-                    alt={member.name}
-                    fill
-                    className="object-cover transition-transform duration-300 group-hover:scale-105"
-                  />
-                </div>
-                <h3 className="text-xl font-bold">{member.name}</h3>
-                <p className="text-gray-600">{member.position}</p>
-              </div>
+              <TeamCard
+                key={member.name}
+                member={member}
+                href={authorSlugs.has(member.author) ? authorHref(member.author) : null}
+              />
             ))}
           </div>
         </div>
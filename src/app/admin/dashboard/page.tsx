@@ -10,28 +10,72 @@ import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { toast } from "sonner"
-import { supabase, TABLES } from "@/lib/supabase"
+import { adminFetch, type PostSaveResult, warnRemovedContent } from "@/lib/admin-api"
+import { type AdminUser, ROLE_LABELS, can, canEditPost } from "@/lib/auth/roles"
+import { DEFAULT_POST_IMAGE } from "@/lib/posts/schema"
+import type { BlogPostRow } from "@/lib/posts/types"
+import { POST_STATUSES, POST_STATUS_LABELS, type PostStatus, effectiveStatus } from "@/lib/posts/status"
+import { totalReactions } from "@/lib/posts/reactions"
+import UsersPanel from "@/components/admin/users-panel"
+import AuthorsPanel from "@/components/admin/authors-panel"
+import CommentsPanel from "@/components/admin/comments-panel"
+import type { AdminAuthorRow } from "@/lib/authors/types"
+import LoginActivityPanel from "@/components/admin/login-activity-panel"
+import TwoFactorPanel from "@/components/admin/two-factor-panel"
+import RevisionHistory from "@/components/admin/revision-history"
+import MarkdownEditor from "@/components/admin/markdown-editor"
+import CoverImageField from "@/components/admin/cover-image-field"
+import type { ContentFormat } from "@/lib/content/render"
+import { slugify } from "@/lib/posts/slug"
+
+const STATUS_BADGE_STYLES: Record<PostStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  scheduled: "bg-blue-100 text-blue-700",
+  published: "bg-green-100 text-green-700",
+  archived: "bg-amber-100 text-amber-700",
+}
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
 
 export default function AdminDashboard() {
   const router = useRouter()
   const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [currentUser, setCurrentUser] = useState<AdminUser | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   //const [loadingAction, setLoadingAction] = useState(false)
   interface BlogPost {
     id: string;
+    slug: string;
     title: string;
     excerpt: string;
     content: string;
+    contentFormat: ContentFormat;
     author: string;
+    authorId: string | null;
     date: string;
     readTime: string;
     categories: string[];
     tags: string[];
     image: string;
+    imageAssetId: string | null;
     featured: boolean;
+    status: PostStatus;
+    publishAt: string | null;
+    createdBy: string | null;
+    views: number;
+    reactions: number;
   }
 
   const [blogPosts, setBlogPosts] = useState<BlogPost[]>([])
+  const [statusFilter, setStatusFilter] = useState<PostStatus | "all">("all")
+  // Manage Posts lists the newest first, or the most read
+  const [postSort, setPostSort] = useState<"newest" | "most-read">("newest")
+  // datetime-local values for "schedule for later" on the create form and in Manage Posts
+  const [scheduleFor, setScheduleFor] = useState("")
+  const [schedulingPostId, setSchedulingPostId] = useState<string | null>(null)
+  const [rescheduleAt, setRescheduleAt] = useState("")
+  const [historyPostId, setHistoryPostId] = useState<string | null>(null)
   interface Subscriber {
     id: string;
     email: string;
@@ -39,54 +83,62 @@ export default function AdminDashboard() {
   }
   
   const [subscribers, setSubscribers] = useState<Subscriber[]>([])
+  // Author profiles, for the author pickers and the Authors tab
+  const [authors, setAuthors] = useState<AdminAuthorRow[]>([])
 
 
   // New blog post state
   const [editingPostId, setEditingPostId] = useState<string | null>(null);
-const [editForm, setEditForm] = useState({ title: "", excerpt: "", content: "" });
+const emptyEditForm = { title: "", slug: "", excerpt: "", content: "", authorId: "", image: "", imageAssetId: "" };
+const [editForm, setEditForm] = useState(emptyEditForm);
 const [loadingAction, setLoadingAction] = useState(false);
 
 function startEditing(post: BlogPost) {
   setEditingPostId(post.id);
-  setEditForm({ title: post.title, excerpt: post.excerpt, content: post.content });
+  setEditForm({
+    title: post.title,
+    slug: post.slug,
+    excerpt: post.excerpt,
+    content: post.content,
+    authorId: post.authorId ?? "",
+    image: post.image,
+    imageAssetId: post.imageAssetId ?? "",
+  });
 }
 
 function cancelEditing() {
   setEditingPostId(null);
-  setEditForm({ title: "", excerpt: "", content: "" });
+  setEditForm(emptyEditForm);
 }
 
 async function saveEdit(id: string) {
   setLoadingAction(true);
   interface BlogPostUpdate {
     title?: string;
+    slug?: string;
     excerpt?: string;
     content?: string;
     author?: string;
+    author_id?: string | null;
     categories?: string[];
     tags?: string[];
     image?: string;
+    image_asset_id?: string | null;
     featured?: boolean;
   }
 
   const handleUpdatePost = async (id: string, updatedData: BlogPostUpdate) => {
     try {
-      if (!supabase) {
-        throw new Error("Database not configured");
-      }
-
-      const { error } = await supabase
-        .from(TABLES.BLOG_POSTS)
-        .update(updatedData)
-        .eq('id', id);
-
-      if (error) {
-        throw error;
-      }
+      const result = await adminFetch<PostSaveResult>(`/api/admin/posts/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(updatedData),
+      });
 
       // Refresh blog posts
       await fetchBlogPosts();
       toast.success("Post updated successfully");
+      warnRemovedContent(result);
+      return true;
     } catch (error) {
       console.error("Error updating post:", error);
       if (error instanceof Error) {
@@ -94,11 +146,18 @@ async function saveEdit(id: string) {
       } else {
         toast.error("Failed to update post. Please try again.");
       }
+      return false;
     }
   };
 
-  await handleUpdatePost(id, editForm);
-  setEditingPostId(null);
+  // Keep the editor open when the server rejects the changes
+  // An emptied slug field keeps the current slug, no author profile keeps
+  // the name the post has
+  const { authorId, imageAssetId, ...fields } = editForm;
+  const update = { ...fields, slug: fields.slug || undefined, author_id: authorId || null, image_asset_id: imageAssetId || null };
+  if (await handleUpdatePost(id, update)) {
+    setEditingPostId(null);
+  }
   setLoadingAction(false);
 }
 
@@ -107,29 +166,42 @@ async function saveEdit(id: string) {
   // Form state for new blog post
   const [formData, setFormData] = useState({
     title: "",
+    slug: "",
     excerpt: "",
     content: "",
-    author: "",
+    // An author profile, empty for posts under your own name
+    authorId: "",
     categories: "",
     tags: "",
-    imageUrl: "https://placehold.co/800x450/48b899/fff" // Default image
+    imageUrl: DEFAULT_POST_IMAGE, // Default image
+    // The upload the image is, empty for a URL
+    imageAssetId: ""
   })
 
   useEffect(() => {
-    // Check if user is logged in
+    // Check that the server still accepts our session cookie
     const checkAuth = async () => {
-      const isLoggedIn = localStorage.getItem("isAdminLoggedIn") === "true"
-      setIsAuthenticated(isLoggedIn)
+      let user: AdminUser | null = null
+      try {
+        const result = await adminFetch<{ user: AdminUser }>("/api/admin/session")
+        user = result.user
+      } catch (error) {
+        console.error("Error checking session:", error)
+      }
+      setIsAuthenticated(!!user)
+      setCurrentUser(user)
 
-      if (!isLoggedIn) {
+      if (!user) {
         router.push("/admin")
         return
       }
 
       // Fetch data from Supabase
       try {
-        await fetchBlogPosts()
-        await fetchSubscribers()
+        await Promise.all([fetchBlogPosts(), fetchAuthors()])
+        if (can(user.role, "subscribers:manage")) {
+          await fetchSubscribers()
+        }
       } catch (error) {
         console.error("Error fetching data:", error)
         toast.error("Failed to load data from the database")
@@ -141,115 +213,82 @@ async function saveEdit(id: string) {
     checkAuth()
   }, [router])
 
-  // Fetch blog posts from Supabase
+  // Fetch blog posts through the admin posts API
   const fetchBlogPosts = async () => {
     try {
-      // Check if Supabase URL and key are configured
-      if (!supabase) {
-        console.warn("Supabase client not initialized properly")
-
-        // Fallback to localStorage if Supabase is not configured
-        const savedPosts = localStorage.getItem("blogPosts")
-        if (savedPosts) {
-          setBlogPosts(JSON.parse(savedPosts))
-        }
-        return
-      }
-
-      const { data, error } = await supabase
-        .from(TABLES.BLOG_POSTS)
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (error) {
-        throw error
-      }
-
-      if (data) {
-        // Transform the data structure to match our expected format
-        const formattedPosts = data.map(post => ({
-          id: post.id,
-          title: post.title,
-          excerpt: post.excerpt,
-          content: post.content,
-          author: post.author,
-          date: new Date(post.date).toLocaleDateString("en-US", {
-            year: "numeric",
-            month: "long",
-            day: "numeric"
-          }),
-          readTime: post.read_time,
-          categories: post.categories,
-          tags: post.tags,
-          image: post.image,
-          featured: post.featured
-        }))
-
-        setBlogPosts(formattedPosts)
-      }
+      const { posts: data } = await adminFetch<{ posts: BlogPostRow[] }>("/api/admin/posts")
+
+      // Transform the data structure to match our expected format
+      const formattedPosts = data.map(post => ({
+        id: post.id,
+        slug: post.slug,
+        title: post.title,
+        excerpt: post.excerpt,
+        content: post.content,
+        contentFormat: post.content_format,
+        author: post.author,
+        authorId: post.author_id,
+        date: new Date(post.date).toLocaleDateString("en-US", {
+          year: "numeric",
+          month: "long",
+          day: "numeric"
+        }),
+        readTime: post.read_time,
+        categories: post.categories,
+        tags: post.tags,
+        image: post.image,
+        imageAssetId: post.image_asset_id,
+        featured: post.featured,
+        status: effectiveStatus(post),
+        publishAt: post.publish_at,
+        createdBy: post.created_by,
+        views: post.view_count ?? 0,
+        reactions: totalReactions(post.reaction_counts)
+      }))
+
+      setBlogPosts(formattedPosts)
     } catch (error) {
       console.error("Error fetching blog posts:", error)
       toast.error("Failed to load blog posts from the database")
+    }
+  }
 
-      // Fallback to localStorage
-      const savedPosts = localStorage.getItem("blogPosts")
-      if (savedPosts) {
-        setBlogPosts(JSON.parse(savedPosts))
-      }
+  const fetchAuthors = async () => {
+    try {
+      const { authors: data } = await adminFetch<{ authors: AdminAuthorRow[] }>("/api/admin/authors")
+      setAuthors(data)
+    } catch (error) {
+      console.error("Error fetching authors:", error)
+      toast.error("Failed to load authors from the database")
     }
   }
 
-  // Fetch subscribers from Supabase
+  // Fetch subscribers, only admins are allowed to see them
   const fetchSubscribers = async () => {
     try {
-      // Check if Supabase URL and key are configured
-      if (!supabase) {
-        console.warn("Supabase client not initialized properly")
-
-        // Fallback to localStorage if Supabase is not configured
-        const savedSubscribers = localStorage.getItem("subscribers")
-        if (savedSubscribers) {
-          setSubscribers(JSON.parse(savedSubscribers))
-        }
-        return
-      }
-
-      const { data, error } = await supabase
-        .from(TABLES.SUBSCRIBERS)
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (error) {
-        throw error
-      }
+      const { subscribers: data } = await adminFetch<{
+        subscribers: { id: string; email: string; date: string }[]
+      }>("/api/admin/subscribers")
+
+      // Transform the data structure to match our expected format
+      const formattedSubscribers = data.map(sub => ({
+        id: sub.id,
+        email: sub.email,
+        date: new Date(sub.date).toLocaleDateString("en-US", {
+          year: "numeric",
+          month: "long",
+          day: "numeric"
+        })
+      }))
 
-      if (data) {
-        // Transform the data structure to match our expected format
-        const formattedSubscribers = data.map(sub => ({
-          id: sub.id,
-          email: sub.email,
-          date: new Date(sub.date).toLocaleDateString("en-US", {
-            year: "numeric",
-            month: "long",
-            day: "numeric"
-          })
-        }))
-
-        setSubscribers(formattedSubscribers)
-      }
+      setSubscribers(formattedSubscribers)
     } catch (error) {
       console.error("Error fetching subscribers:", error)
       toast.error("Failed to load subscribers from the database")
-
-      // Fallback to localStorage
-      const savedSubscribers = localStorage.getItem("subscribers")
-      if (savedSubscribers) {
-        setSubscribers(JSON.parse(savedSubscribers))
-      }
     }
   }
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target
     setFormData({
       ...formData,
@@ -261,47 +300,38 @@ async function saveEdit(id: string) {
     e.preventDefault()
     setLoadingAction(true)
 
+    // Which of Save Draft / Publish Now / Schedule was clicked, pressing
+    // enter in a field saves a draft
+    const submitter = (e.nativeEvent as SubmitEvent).submitter as HTMLButtonElement | null
+    const status = (submitter?.value || "draft") as PostStatus
+
     try {
       // Process categories and tags into arrays
       const categoriesArray = formData.categories.split(",").map(cat => cat.trim())
       const tagsArray = formData.tags.split(",").map(tag => tag.trim())
 
-      // Calculate read time
-      const readTime = `${Math.max(3, Math.ceil(formData.content.length / 1000))} min read`
-
-      // Current date
-      const currentDate = new Date()
-
-      // Prepare the blog post object for Supabase
+      // Prepare the blog post object, the server validates it and sets the
+      // read time, dates and ownership
       const blogPost = {
         title: formData.title,
+        slug: formData.slug || undefined,
         excerpt: formData.excerpt,
         content: formData.content,
-        author: formData.author || "Admin",
-        date: currentDate.toISOString(),
-        read_time: readTime,
+        content_format: "markdown",
+        author_id: formData.authorId || undefined,
         categories: categoriesArray,
         tags: tagsArray,
         image: formData.imageUrl,
+        image_asset_id: formData.imageAssetId || null,
         featured: false,
-        created_at: currentDate.toISOString(),
-        updated_at: currentDate.toISOString()
+        status,
+        publish_at: status === "scheduled" && scheduleFor ? new Date(scheduleFor).toISOString() : undefined
       }
 
-      // Check if Supabase is properly configured
-      if (!supabase) {
-        throw new Error("Database not configured")
-      }
-
-      // Insert the blog post into Supabase
-      const { data, error } = await supabase
-        .from(TABLES.BLOG_POSTS)
-        .insert(blogPost)
-        .select()
-
-      if (error) {
-        throw error
-      }
+      const result = await adminFetch<PostSaveResult>("/api/admin/posts", {
+        method: "POST",
+        body: JSON.stringify(blogPost),
+      })
 
       // Refresh blog posts
       await fetchBlogPosts()
@@ -309,15 +339,25 @@ async function saveEdit(id: string) {
       // Reset form
       setFormData({
         title: "",
+        slug: "",
         excerpt: "",
         content: "",
-        author: "",
+        authorId: "",
         categories: "",
         tags: "",
-        imageUrl: "https://placehold.co/800x450/48b899/fff"
+        imageUrl: DEFAULT_POST_IMAGE,
+        imageAssetId: ""
       })
-
-      toast.success("Blog post created successfully!")
+      setScheduleFor("")
+
+      toast.success(
+        status === "draft"
+          ? "Draft saved!"
+          : status === "scheduled"
+            ? "Blog post scheduled!"
+            : "Blog post published!"
+      )
+      warnRemovedContent(result)
     } catch (error) {
       console.error("Error creating blog post:", error)
       if (error instanceof Error) {
@@ -325,51 +365,31 @@ async function saveEdit(id: string) {
       } else {
         toast.error("Failed to create blog post. Please try again.");
       }
+    } finally {
+      setLoadingAction(false)
+    }
+  }
 
-      // Fallback to localStorage if Supabase fails
-      try {
-        // Create a new blog post for localStorage
-        const newPost = {
-          id: Date.now().toString(),
-          title: formData.title,
-          excerpt: formData.excerpt,
-          content: formData.content,
-          author: formData.author || "Admin",
-          date: new Date().toLocaleDateString("en-US", {
-            year: "numeric",
-            month: "long",
-            day: "numeric"
-          }),
-          readTime: `${Math.max(3, Math.ceil(formData.content.length / 1000))} min read`,
-          categories: formData.categories.split(",").map(cat => cat.trim()),
-          tags: formData.tags.split(",").map(tag => tag.trim()),
-          image: formData.imageUrl,
-          featured: false
-        }
+  const handleChangeStatus = async (postId: string, status: PostStatus, publishAt?: string) => {
+    setLoadingAction(true)
 
-        // Add to blogPosts state
-        const updatedPosts = [...blogPosts, newPost]
-        setBlogPosts(updatedPosts)
-
-        // Save to localStorage
-        localStorage.setItem("blogPosts", JSON.stringify(updatedPosts))
-
-        // Reset form
-        setFormData({
-          title: "",
-          excerpt: "",
-          content: "",
-          author: "",
-          categories: "",
-          tags: "",
-          imageUrl: "https://placehold.co/800x450/48b899/fff"
-        })
+    try {
+      await adminFetch(`/api/admin/posts/${postId}`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          status,
+          publish_at: publishAt ? new Date(publishAt).toISOString() : undefined
+        }),
+      })
 
-        toast.success("Blog post saved to local storage instead.")
-      } catch (localError) {
-        console.error("Error saving to localStorage:", localError)
-        toast.error("Failed to save blog post.")
-      }
+      await fetchBlogPosts()
+      setSchedulingPostId(null)
+      setRescheduleAt("")
+      toast.success(`Post moved to ${POST_STATUS_LABELS[status].toLowerCase()}`)
+    } catch (error) {
+      console.error("Error changing post status:", error)
+      const errorMessage = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to change post status. ${errorMessage}`);
     } finally {
       setLoadingAction(false)
     }
@@ -383,18 +403,7 @@ async function saveEdit(id: string) {
     setLoadingAction(true)
 
     try {
-      if (!supabase) {
-        throw new Error("Database not configured")
-      }
-
-      const { error } = await supabase
-        .from(TABLES.BLOG_POSTS)
-        .delete()
-        .eq('id', postId)
-
-      if (error) {
-        throw error
-      }
+      await adminFetch(`/api/admin/posts/${postId}`, { method: "DELETE" })
 
       // Refresh blog posts
       await fetchBlogPosts()
@@ -403,16 +412,6 @@ async function saveEdit(id: string) {
       console.error("Error deleting post:", error)
       const errorMessage = error instanceof Error ? error.message : "Please try again.";
       toast.error("Failed to delete post. " + errorMessage);
-
-      // Fallback to localStorage
-      try {
-        const updatedPosts = blogPosts.filter(p => p.id !== postId)
-        setBlogPosts(updatedPosts)
-        localStorage.setItem("blogPosts", JSON.stringify(updatedPosts))
-        toast.success("Post deleted from local storage.")
-      } catch (localError) {
-        console.error("Error deleting from localStorage:", localError)
-      }
     } finally {
       setLoadingAction(false)
     }
@@ -426,18 +425,7 @@ async function saveEdit(id: string) {
     setLoadingAction(true)
 
     try {
-      if (!supabase) {
-        throw new Error("Database not configured")
-      }
-
-      const { error } = await supabase
-        .from(TABLES.SUBSCRIBERS)
-        .delete()
-        .eq('id', subscriberId)
-
-      if (error) {
-        throw error
-      }
+      await adminFetch(`/api/admin/subscribers/${subscriberId}`, { method: "DELETE" })
 
       // Refresh subscribers
       await fetchSubscribers()
@@ -449,24 +437,22 @@ async function saveEdit(id: string) {
       } else {
         toast.error("Failed to remove subscriber. Please try again.");
       }
-
-      // Fallback to localStorage
-      try {
-        const updatedSubscribers = subscribers.filter(s => s.id !== subscriberId)
-        setSubscribers(updatedSubscribers)
-        localStorage.setItem("subscribers", JSON.stringify(updatedSubscribers))
-        toast.success("Subscriber removed from local storage.")
-      } catch (localError) {
-        console.error("Error removing from localStorage:", localError)
-      }
     } finally {
       setLoadingAction(false)
     }
   }
 
-  const handleLogout = () => {
-    localStorage.removeItem("isAdminLoggedIn")
-    router.push("/admin")
+  const handleLogout = async () => {
+    try {
+      const response = await fetch("/api/admin/logout", { method: "POST" })
+      if (!response.ok) {
+        throw new Error("Logout request failed")
+      }
+      router.push("/admin")
+    } catch (error) {
+      console.error("Error logging out:", error)
+      toast.error("Failed to log out. Please try again.")
+    }
   }
 
   if (isLoading) {
@@ -477,22 +463,57 @@ async function saveEdit(id: string) {
     )
   }
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated || !currentUser) {
     return null // Router will redirect to login
   }
 
+  const canManageSubscribers = can(currentUser.role, "subscribers:manage")
+  const canManageUsers = can(currentUser.role, "users:manage")
+  const canManageAuthors = can(currentUser.role, "authors:manage")
+  const canModerateComments = can(currentUser.role, "comments:moderate")
+  const canViewSecurity = can(currentUser.role, "security:view")
+  const canPublish = can(currentUser.role, "posts:publish")
+
+  const filteredPosts = statusFilter === "all"
+    ? blogPosts
+    : blogPosts.filter(post => post.status === statusFilter)
+  // The API sends the newest first, the sort keeps that order for ties
+  const visiblePosts = postSort === "most-read"
+    ? [...filteredPosts].sort((a, b) => b.views - a.views)
+    : filteredPosts
+
   return (
     <div className="p-6 max-w-6xl mx-auto">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold">Admin Dashboard</h1>
-        <Button onClick={handleLogout} variant="outline">Logout</Button>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-gray-500">
+            {currentUser.displayName} ({ROLE_LABELS[currentUser.role]})
+          </span>
+          <Button onClick={handleLogout} variant="outline">Logout</Button>
+        </div>
       </div>
 
       <Tabs defaultValue="create-post" className="w-full">
-        <TabsList className="grid w-full grid-cols-3 mb-8">
-          <TabsTrigger value="create-post">Create Blog Post</TabsTrigger>
-          <TabsTrigger value="manage-posts">Manage Posts ({blogPosts.length})</TabsTrigger>
-          <TabsTrigger value="subscribers">Subscribers ({subscribers.length})</TabsTrigger>
+        <TabsList className="flex flex-wrap h-auto w-full mb-8">
+          <TabsTrigger value="create-post" className="flex-1">Create Blog Post</TabsTrigger>
+          <TabsTrigger value="manage-posts" className="flex-1">Manage Posts ({blogPosts.length})</TabsTrigger>
+          {canModerateComments && (
+            <TabsTrigger value="comments" className="flex-1">Comments</TabsTrigger>
+          )}
+          {canManageSubscribers && (
+            <TabsTrigger value="subscribers" className="flex-1">Subscribers ({subscribers.length})</TabsTrigger>
+          )}
+          {canManageAuthors && (
+            <TabsTrigger value="authors" className="flex-1">Authors ({authors.length})</TabsTrigger>
+          )}
+          {canManageUsers && (
+            <TabsTrigger value="users" className="flex-1">Users</TabsTrigger>
+          )}
+          {canViewSecurity && (
+            <TabsTrigger value="login-activity" className="flex-1">Login Activity</TabsTrigger>
+          )}
+          <TabsTrigger value="security" className="flex-1">Security</TabsTrigger>
         </TabsList>
 
         <TabsContent value="create-post">
@@ -517,6 +538,20 @@ async function saveEdit(id: string) {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="slug">URL Slug</Label>
+                  <Input
+                    id="slug"
+                    name="slug"
+                    placeholder={slugify(formData.title) || "generated-from-the-title"}
+                    value={formData.slug}
+                    onChange={handleInputChange}
+                  />
+                  <p className="text-sm text-gray-500">
+                    The post will be at /blog/{formData.slug || slugify(formData.title) || "..."}. Leave empty to use the title, a number is added if another post already has it.
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="excerpt">Excerpt</Label>
                   <Textarea
@@ -531,44 +566,38 @@ async function saveEdit(id: string) {
 
                 <div className="space-y-2">
                   <Label htmlFor="content">Content</Label>
-                  <div className="border rounded-md p-2 bg-gray-50">
-                    <p className="text-sm text-gray-500 mb-2">
-                      You can use HTML tags for formatting. The content will be displayed as a full blog page when users click on the blog card.
-                    </p>
-                  </div>
-                  <Textarea
+                  <MarkdownEditor
                     id="content"
                     name="content"
-                    placeholder="Enter the full blog post content with HTML formatting if needed"
-                    className="min-h-[300px] font-mono text-sm"
+                    format="markdown"
                     value={formData.content}
-                    onChange={handleInputChange}
+                    onChange={(content) => setFormData({ ...formData, content })}
                     required
                   />
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="author">Author</Label>
-                    <Input
-                      id="author"
-                      name="author"
-                      placeholder="Enter author name"
-                      value={formData.author}
+                    <Label htmlFor="authorId">Author</Label>
+                    <select
+                      id="authorId"
+                      name="authorId"
+                      className={selectClassName}
+                      value={formData.authorId}
                       onChange={handleInputChange}
-                    />
+                    >
+                      <option value="">{currentUser.displayName} (no profile)</option>
+                      {authors.map((author) => (
+                        <option key={author.id} value={author.id}>{author.name}</option>
+                      ))}
+                    </select>
                   </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="imageUrl">Image URL</Label>
-                    <Input
-                      id="imageUrl"
-                      name="imageUrl"
-                      placeholder="Enter image URL"
-                      value={formData.imageUrl}
-                      onChange={handleInputChange}
-                    />
-                  </div>
+                  <CoverImageField
+                    id="imageUrl"
+                    value={{ image: formData.imageUrl, assetId: formData.imageAssetId || null }}
+                    onChange={({ image, assetId }) => setFormData({ ...formData, imageUrl: image, imageAssetId: assetId ?? "" })}
+                  />
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -597,14 +626,48 @@ async function saveEdit(id: string) {
                   </div>
                 </div>
               </CardContent>
-              <CardFooter>
+              <CardFooter className="flex flex-wrap items-end gap-4">
                 <Button
                   type="submit"
-                  className="bg-brand-teal hover:bg-brand-teal/90"
+                  value="draft"
+                  variant="outline"
                   disabled={loadingAction}
                 >
-                  {loadingAction ? "Creating..." : "Create Post"}
+                  {loadingAction ? "Saving..." : "Save Draft"}
                 </Button>
+                {canPublish ? (
+                  <>
+                    <Button
+                      type="submit"
+                      value="published"
+                      className="bg-brand-teal hover:bg-brand-teal/90"
+                      disabled={loadingAction}
+                    >
+                      Publish Now
+                    </Button>
+                    <div className="flex items-end gap-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="scheduleFor">Schedule for later</Label>
+                        <Input
+                          id="scheduleFor"
+                          type="datetime-local"
+                          value={scheduleFor}
+                          onChange={(e) => setScheduleFor(e.target.value)}
+                        />
+                      </div>
+                      <Button
+                        type="submit"
+                        value="scheduled"
+                        variant="outline"
+                        disabled={loadingAction || !scheduleFor}
+                      >
+                        Schedule
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">An editor will review and publish your draft.</p>
+                )}
               </CardFooter>
             </form>
           </Card>
@@ -619,11 +682,41 @@ async function saveEdit(id: string) {
       </CardDescription>
     </CardHeader>
     <CardContent>
-      {blogPosts.length === 0 ? (
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {(["all", ...POST_STATUSES] as const).map((status) => (
+          <Button
+            key={status}
+            size="sm"
+            variant={statusFilter === status ? "default" : "outline"}
+            onClick={() => setStatusFilter(status)}
+          >
+            {status === "all" ? "All" : POST_STATUS_LABELS[status]} (
+            {status === "all" ? blogPosts.length : blogPosts.filter(post => post.status === status).length})
+          </Button>
+        ))}
+        <div className="flex items-center gap-2 ml-auto">
+          <span className="text-sm text-gray-500">Sort by</span>
+          <Button
+            size="sm"
+            variant={postSort === "newest" ? "default" : "outline"}
+            onClick={() => setPostSort("newest")}
+          >
+            Newest
+          </Button>
+          <Button
+            size="sm"
+            variant={postSort === "most-read" ? "default" : "outline"}
+            onClick={() => setPostSort("most-read")}
+          >
+            Most read
+          </Button>
+        </div>
+      </div>
+      {visiblePosts.length === 0 ? (
         <p className="text-center py-8 text-gray-500">No blog posts found. Create your first post!</p>
       ) : (
         <div className="space-y-4">
-          {blogPosts.map((post) => (
+          {visiblePosts.map((post) => (
             <div key={post.id} className="border rounded-lg p-4">
               {editingPostId === post.id ? (
                 <div className="space-y-2">
@@ -634,6 +727,21 @@ async function saveEdit(id: string) {
                     className="input w-full"
                     placeholder="Title"
                   />
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-500 whitespace-nowrap">/blog/</span>
+                    <input
+                      type="text"
+                      value={editForm.slug}
+                      onChange={(e) => setEditForm({ ...editForm, slug: e.target.value })}
+                      className="input w-full"
+                      placeholder="url-slug"
+                    />
+                  </div>
+                  {editForm.slug !== post.slug && post.status !== "draft" && (
+                    <p className="text-sm text-amber-700">
+                      The old address /blog/{post.slug} will redirect to the new one.
+                    </p>
+                  )}
                   <input
                     type="text"
                     value={editForm.excerpt}
@@ -641,11 +749,29 @@ async function saveEdit(id: string) {
                     className="input w-full"
                     placeholder="Excerpt"
                   />
-                  <textarea
+                  <select
+                    value={editForm.authorId}
+                    onChange={(e) => setEditForm({ ...editForm, authorId: e.target.value })}
+                    className={selectClassName}
+                    aria-label="Author"
+                  >
+                    <option value="">{post.authorId ? "No profile" : `${post.author} (no profile)`}</option>
+                    {authors.map((author) => (
+                      <option key={author.id} value={author.id}>{author.name}</option>
+                    ))}
+                  </select>
+                  <div className="max-w-md">
+                    <CoverImageField
+                      id={`image-${post.id}`}
+                      value={{ image: editForm.image, assetId: editForm.imageAssetId || null }}
+                      onChange={({ image, assetId }) => setEditForm({ ...editForm, image, imageAssetId: assetId ?? "" })}
+                    />
+                  </div>
+                  <MarkdownEditor
+                    id={`content-${post.id}`}
+                    format={post.contentFormat}
                     value={editForm.content}
-                    onChange={(e) => setEditForm({ ...editForm, content: e.target.value })}
-                    className="textarea w-full min-h-[200px] font-mono text-sm"
-                    placeholder="Content (HTML formatting supported)"
+                    onChange={(content) => setEditForm({ ...editForm, content })}
                   />
                   <div className="flex gap-2 mt-2">
                     <Button size="sm" onClick={() => saveEdit(post.id)}>Save</Button>
@@ -655,36 +781,112 @@ async function saveEdit(id: string) {
               ) : (
                 <>
                   <div className="flex justify-between">
-                    <h3 className="font-bold">{post.title}</h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-bold">{post.title}</h3>
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_BADGE_STYLES[post.status]}`}>
+                        {POST_STATUS_LABELS[post.status]}
+                      </span>
+                    </div>
                     <div className="flex gap-2">
+                      {canEditPost(currentUser, post) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => startEditing(post)}
+                        >
+                          Edit
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => startEditing(post)}
-                      >
-                        Edit
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        asChild
-                      >
-                        <Link href={`/blog/${post.id}`} target="_blank">Preview</Link>
-                      </Button>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => handleDeletePost(post.id)}
-                        disabled={loadingAction}
+                        onClick={() => setHistoryPostId(historyPostId === post.id ? null : post.id)}
                       >
-                        Delete
+                        {historyPostId === post.id ? "Hide History" : "History"}
                       </Button>
+                      {post.status === "published" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          asChild
+                        >
+                          <Link href={`/blog/${post.slug}`} target="_blank">View</Link>
+                        </Button>
+                      )}
+                      {can(currentUser.role, "posts:delete") && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleDeletePost(post.id)}
+                          disabled={loadingAction}
+                        >
+                          Delete
+                        </Button>
+                      )}
                     </div>
                   </div>
                   <p className="text-sm text-gray-500 mt-1">
-                    {post.date} • {post.readTime} • Categories: {Array.isArray(post.categories) ? post.categories.join(", ") : post.categories}
+                    {post.date} • {post.readTime} • {post.views.toLocaleString()} views • {post.reactions.toLocaleString()} reactions • Categories: {Array.isArray(post.categories) ? post.categories.join(", ") : post.categories}
                   </p>
+                  {post.status === "scheduled" && post.publishAt && (
+                    <p className="text-sm text-blue-600 mt-1">
+                      Goes live {new Date(post.publishAt).toLocaleString()}
+                    </p>
+                  )}
                   <p className="mt-2 text-gray-700">{post.excerpt}</p>
+                  {canPublish && (
+                    <div className="flex flex-wrap items-center gap-2 mt-3">
+                      {post.status !== "published" && (
+                        <Button size="sm" variant="outline" disabled={loadingAction} onClick={() => handleChangeStatus(post.id, "published")}>
+                          Publish Now
+                        </Button>
+                      )}
+                      {(post.status === "draft" || post.status === "scheduled") && (
+                        schedulingPostId === post.id ? (
+                          <>
+                            <Input
+                              type="datetime-local"
+                              className="w-auto"
+                              value={rescheduleAt}
+                              onChange={(e) => setRescheduleAt(e.target.value)}
+                            />
+                            <Button size="sm" disabled={loadingAction || !rescheduleAt} onClick={() => handleChangeStatus(post.id, "scheduled", rescheduleAt)}>
+                              Save Schedule
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setSchedulingPostId(null)}>
+                              Cancel
+                            </Button>
+                          </>
+                        ) : (
+                          <Button size="sm" variant="outline" disabled={loadingAction} onClick={() => { setSchedulingPostId(post.id); setRescheduleAt("") }}>
+                            {post.status === "scheduled" ? "Reschedule" : "Schedule for Later"}
+                          </Button>
+                        )
+                      )}
+                      {(post.status === "published" || post.status === "scheduled") && (
+                        <Button size="sm" variant="outline" disabled={loadingAction} onClick={() => handleChangeStatus(post.id, "draft")}>
+                          {post.status === "published" ? "Unpublish" : "Unschedule"}
+                        </Button>
+                      )}
+                      {post.status === "published" && (
+                        <Button size="sm" variant="outline" disabled={loadingAction} onClick={() => handleChangeStatus(post.id, "archived")}>
+                          Archive
+                        </Button>
+                      )}
+                      {post.status === "archived" && (
+                        <Button size="sm" variant="outline" disabled={loadingAction} onClick={() => handleChangeStatus(post.id, "draft")}>
+                          Restore as Draft
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {historyPostId === post.id && (
+                    <RevisionHistory
+                      postId={post.id}
+                      canRestore={canEditPost(currentUser, post)}
+                      onRestored={fetchBlogPosts}
+                    />
+                  )}
                 </>
               )}
             </div>
@@ -696,68 +898,85 @@ async function saveEdit(id: string) {
 </TabsContent>
 
 
-        <TabsContent value="subscribers">
-          <Card>
-            <CardHeader>
-              <CardTitle>Email Subscribers</CardTitle>
-              <CardDescription>
-                Manage your newsletter subscribers
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {subscribers.length === 0 ? (
-                <p className="text-center py-8 text-gray-500">No subscribers yet. They will appear here when users subscribe.</p>
-              ) : (
-                <div className="space-y-4">
-                  <div className="border rounded-lg overflow-hidden">
-                    <table className="min-w-full divide-y divide-gray-200">
-                      <thead className="bg-gray-50">
-                        <tr>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date Subscribed</th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-white divide-y divide-gray-200">
-                        {subscribers.map((subscriber) => (
-                          <tr key={subscriber.id}>
-                            <td className="px-6 py-4 whitespace-nowrap">{subscriber.email}</td>
-                            <td className="px-6 py-4 whitespace-nowrap">{subscriber.date}</td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <Button
-                                variant="destructive"
-                                size="sm"
-                                disabled={loadingAction}
-                                onClick={() => handleDeleteSubscriber(subscriber.id)}
-                              >
-                                Remove
-                              </Button>
-                            </td>
+        {canManageSubscribers && (
+          <TabsContent value="subscribers">
+            <Card>
+              <CardHeader>
+                <CardTitle>Email Subscribers</CardTitle>
+                <CardDescription>
+                  Manage your newsletter subscribers
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {subscribers.length === 0 ? (
+                  <p className="text-center py-8 text-gray-500">No subscribers yet. They will appear here when users subscribe.</p>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="border rounded-lg overflow-hidden">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date Subscribed</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                           </tr>
-                        ))}
-                      </tbody>
-                    </table>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {subscribers.map((subscriber) => (
+                            <tr key={subscriber.id}>
+                              <td className="px-6 py-4 whitespace-nowrap">{subscriber.email}</td>
+                              <td className="px-6 py-4 whitespace-nowrap">{subscriber.date}</td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  disabled={loadingAction}
+                                  onClick={() => handleDeleteSubscriber(subscriber.id)}
+                                >
+                                  Remove
+                                </Button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
                   </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+
+        {canModerateComments && (
+          <TabsContent value="comments">
+            <CommentsPanel />
+          </TabsContent>
+        )}
+
+        {canManageAuthors && (
+          <TabsContent value="authors">
+            {/* Renames show up on the posts as well */}
+            <AuthorsPanel authors={authors} onChange={async () => { await Promise.all([fetchAuthors(), fetchBlogPosts()]) }} />
+          </TabsContent>
+        )}
+
+        {canManageUsers && (
+          <TabsContent value="users">
+            <UsersPanel currentUser={currentUser} />
+          </TabsContent>
+        )}
+
+        {canViewSecurity && (
+          <TabsContent value="login-activity">
+            <LoginActivityPanel />
+          </TabsContent>
+        )}
+
+        <TabsContent value="security">
+          <TwoFactorPanel />
         </TabsContent>
       </Tabs>
-
-      {/* Database Connection Status */}
-      <div className="mt-8 border-t pt-6">
-        <p className="text-sm text-gray-500">
-          Database Connection: {supabase ? (
-            <span className="text-green-500 font-medium">Connected to Supabase</span>
-          ) : (
-            <span className="text-red-500 font-medium">Not connected, using local storage</span>
-          )}
-        </p>
-        <p className="text-xs text-gray-400 mt-1">
-          To set up database connection, provide your Supabase credentials in the .env.local file
-        </p>
-      </div>
     </div>
   )
 }
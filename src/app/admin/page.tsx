@@ -19,8 +19,18 @@ export default function AdminLogin() {
   const router = useRouter()
   const [username, setUsername] = useState("")
   const [password, setPassword] = useState("")
+  const [code, setCode] = useState("")
+  // Set once the password was accepted for an account with 2FA enabled
+  const [needsCode, setNeedsCode] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
 
+  const completeLogin = () => {
+    // The session cookie is set by the server, only follow safe local paths
+    const next = new URLSearchParams(window.location.search).get("next")
+    toast.success("Login successful")
+    router.push(next?.startsWith("/admin/") ? next : "/admin/dashboard")
+  }
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -37,9 +47,10 @@ export default function AdminLogin() {
       const result = await response.json()
 
       if (result.success) {
-        localStorage.setItem("isAdminLoggedIn", "true")
-        toast.success("Login successful")
-        router.push("/admin/dashboard")
+        completeLogin()
+      } else if (result.mfaRequired) {
+        setNeedsCode(true)
+        setPassword("")
       } else {
         toast.error(result.message || "Invalid credentials")
       }
@@ -50,50 +61,125 @@ export default function AdminLogin() {
     }
   }
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      const response = await fetch("/api/admin-login/verify", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        completeLogin()
+      } else {
+        toast.error(result.message || "Invalid code")
+        setCode("")
+        // The pending login expired, start over with the password
+        if (result.expired) {
+          setNeedsCode(false)
+        }
+      }
+    } catch (err) {
+      toast.error("Something went wrong. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1">
           <CardTitle className="text-2xl font-bold">Admin Login</CardTitle>
           <CardDescription>
-            Enter your credentials to access the admin dashboard
+            {needsCode
+              ? "Enter the 6-digit code from your authenticator app, or one of your recovery codes"
+              : "Enter your credentials to access the admin dashboard"}
           </CardDescription>
         </CardHeader>
-        <form onSubmit={handleLogin}>
-          <CardContent className="grid gap-4">
-            <div className="grid gap-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                type="text"
-                placeholder="admin"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                required
-              />
-            </div>
-            <div className="grid gap-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="••••••••"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-              />
-            </div>
-          </CardContent>
-          <CardFooter>
-            <Button
-              type="submit"
-              className="w-full bg-brand-teal hover:bg-brand-teal/90"
-              disabled={isLoading}
-            >
-              {isLoading ? "Logging in..." : "Login"}
-            </Button>
-          </CardFooter>
-        </form>
+        {needsCode ? (
+          <form onSubmit={handleVerify}>
+            <CardContent className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="code">Authentication Code</Label>
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoFocus
+                  required
+                />
+              </div>
+            </CardContent>
+            <CardFooter className="flex flex-col gap-2">
+              <Button
+                type="submit"
+                className="w-full bg-brand-teal hover:bg-brand-teal/90"
+                disabled={isLoading}
+              >
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => {
+                  setNeedsCode(false)
+                  setCode("")
+                }}
+              >
+                Back
+              </Button>
+            </CardFooter>
+          </form>
+        ) : (
+          <form onSubmit={handleLogin}>
+            <CardContent className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  placeholder="admin"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button
+                type="submit"
+                className="w-full bg-brand-teal hover:bg-brand-teal/90"
+                disabled={isLoading}
+              >
+                {isLoading ? "Logging in..." : "Login"}
+              </Button>
+            </CardFooter>
+          </form>
+        )}
       </Card>
     </div>
   )
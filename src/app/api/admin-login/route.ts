@@ -1,18 +1,71 @@
 import { NextResponse } from "next/server"
+import {
+  getRequestInfo,
+  startAdminSession,
+  startMfaChallenge,
+  tooManyAttemptsResponse,
+} from "@/lib/auth/server"
+import { verifyDummyPassword, verifyPassword } from "@/lib/auth/password"
+import { getLoginLockout, recordLoginAttempt } from "@/lib/auth/rate-limit"
+import { bootstrapAdminUser, findUserByUsername, toAdminUser } from "@/lib/auth/users"
 
 export async function POST(req: Request) {
-  const body = await req.json()
-  const { username, password } = body
-
-  if (
-    username === process.env.ADMIN_USERNAME &&
-    password === process.env.ADMIN_PASSWORD
-  ) {
-    return NextResponse.json({ success: true })
-  } else {
+  const body = await req.json().catch(() => null)
+  const { username, password } = body ?? {}
+
+  if (typeof username !== "string" || typeof password !== "string") {
+    return NextResponse.json(
+      { success: false, message: "Username and password are required" },
+      { status: 400 }
+    )
+  }
+
+  // Usernames are lowercase, so every spelling shares one lockout
+  const attempt = { username: username.trim().toLowerCase(), ...getRequestInfo(req) }
+
+  try {
+    const retryAfter = await getLoginLockout(attempt)
+    if (retryAfter > 0) {
+      await recordLoginAttempt(attempt, "locked")
+      return tooManyAttemptsResponse(retryAfter)
+    }
+
+    let user = await findUserByUsername(attempt.username)
+    if (user) {
+      const valid = await verifyPassword(password, user.password_hash)
+      if (!valid || user.disabled) {
+        user = null
+      }
+    } else {
+      await verifyDummyPassword(password)
+      user = await bootstrapAdminUser(attempt.username, password)
+    }
+
+    if (!user) {
+      await recordLoginAttempt(attempt, "invalid_credentials")
+      return NextResponse.json(
+        { success: false, message: "Invalid credentials" },
+        { status: 401 }
+      )
+    }
+
+    // The session is only issued by /api/admin-login/verify once the code checks out
+    if (user.totp_enabled) {
+      await recordLoginAttempt(attempt, "mfa_required")
+      return await startMfaChallenge(
+        NextResponse.json({ success: false, mfaRequired: true }),
+        toAdminUser(user)
+      )
+    }
+
+    await recordLoginAttempt(attempt, "success")
+    const response = NextResponse.json({ success: true })
+    return await startAdminSession(response, toAdminUser(user), attempt)
+  } catch (error) {
+    console.error("Error during admin login:", error)
     return NextResponse.json(
-      { success: false, message: "Invalid credentials" },
-      { status: 401 }
+      { success: false, message: "Could not start a session. Please try again." },
+      { status: 500 }
     )
   }
 }
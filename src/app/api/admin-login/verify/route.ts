@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import {
+  clearMfaCookie,
+  getMfaChallengeUserId,
+  getRequestInfo,
+  startAdminSession,
+  tooManyAttemptsResponse,
+} from "@/lib/auth/server"
+import { getLoginLockout, recordLoginAttempt } from "@/lib/auth/rate-limit"
+import { verifySecondFactor } from "@/lib/auth/two-factor"
+import { findUserById, toAdminUser } from "@/lib/auth/users"
+
+// Second login step for accounts with two-factor authentication enabled
+export async function POST(req: Request) {
+  const { code } = (await req.json().catch(() => null)) ?? {}
+
+  if (typeof code !== "string" || !code.trim()) {
+    return NextResponse.json(
+      { success: false, message: "Enter the code from your authenticator app" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const userId = await getMfaChallengeUserId()
+    const user = userId ? await findUserById(userId) : null
+    if (!user || user.disabled) {
+      return NextResponse.json(
+        { success: false, expired: true, message: "Your login has expired. Please sign in again." },
+        { status: 401 }
+      )
+    }
+
+    const attempt = { username: user.username, ...getRequestInfo(req) }
+    const retryAfter = await getLoginLockout(attempt)
+    if (retryAfter > 0) {
+      await recordLoginAttempt(attempt, "locked")
+      return tooManyAttemptsResponse(retryAfter)
+    }
+
+    if (!(await verifySecondFactor(user, code))) {
+      await recordLoginAttempt(attempt, "mfa_failed")
+      return NextResponse.json(
+        { success: false, message: "Invalid code" },
+        { status: 401 }
+      )
+    }
+
+    await recordLoginAttempt(attempt, "success")
+    const response = clearMfaCookie(NextResponse.json({ success: true }))
+    return await startAdminSession(response, toAdminUser(user), attempt)
+  } catch (error) {
+    console.error("Error verifying two-factor code:", error)
+    return NextResponse.json(
+      { success: false, message: "Could not start a session. Please try again." },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth/server"
+import { generateRecoveryCodes, verifyTotp } from "@/lib/auth/totp"
+import { findUserById, updateUserRow } from "@/lib/auth/users"
+
+// Confirms the pending secret with a code from the app and switches 2FA on.
+// The recovery codes are only ever returned here and by /recovery-codes.
+export async function POST(req: Request) {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { code } = (await req.json().catch(() => null)) ?? {}
+  const user = await findUserById(auth.session.user.id)
+  if (!user?.totp_pending_secret) {
+    return NextResponse.json(
+      { success: false, message: "Start the setup again to get a new QR code" },
+      { status: 400 }
+    )
+  }
+
+  const step = typeof code === "string" ? verifyTotp(user.totp_pending_secret, code) : null
+  if (step === null) {
+    return NextResponse.json({ success: false, message: "Invalid code" }, { status: 400 })
+  }
+
+  const { codes, hashes } = generateRecoveryCodes()
+  await updateUserRow(user.id, {
+    totp_enabled: true,
+    totp_secret: user.totp_pending_secret,
+    totp_pending_secret: null,
+    totp_last_step: step,
+    recovery_codes: hashes,
+  })
+
+  return NextResponse.json({ success: true, recoveryCodes: codes })
+}
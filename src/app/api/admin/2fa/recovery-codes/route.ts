@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth/server"
+import { generateRecoveryCodes } from "@/lib/auth/totp"
+import { verifySecondFactor } from "@/lib/auth/two-factor"
+import { findUserById, updateUserRow } from "@/lib/auth/users"
+
+// Replaces all recovery codes, invalidating the old ones
+export async function POST(req: Request) {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { code } = (await req.json().catch(() => null)) ?? {}
+  const user = await findUserById(auth.session.user.id)
+  if (!user || typeof code !== "string" || !(await verifySecondFactor(user, code))) {
+    return NextResponse.json({ success: false, message: "Invalid code" }, { status: 400 })
+  }
+
+  const { codes, hashes } = generateRecoveryCodes()
+  await updateUserRow(user.id, { recovery_codes: hashes })
+
+  return NextResponse.json({ success: true, recoveryCodes: codes })
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth/server"
+import { verifySecondFactor } from "@/lib/auth/two-factor"
+import { findUserById, updateUserRow } from "@/lib/auth/users"
+
+// Two-factor status of the signed in user
+export async function GET() {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const user = await findUserById(auth.session.user.id)
+  return NextResponse.json({
+    success: true,
+    enabled: !!user?.totp_enabled,
+    recoveryCodesRemaining: user?.recovery_codes?.length ?? 0,
+  })
+}
+
+// Turns two-factor off. Needs a current code so a hijacked session alone
+// cannot weaken the account.
+export async function DELETE(req: Request) {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { code } = (await req.json().catch(() => null)) ?? {}
+  const user = await findUserById(auth.session.user.id)
+  if (!user || typeof code !== "string" || !(await verifySecondFactor(user, code))) {
+    return NextResponse.json({ success: false, message: "Invalid code" }, { status: 400 })
+  }
+
+  await updateUserRow(user.id, {
+    totp_enabled: false,
+    totp_secret: null,
+    totp_pending_secret: null,
+    totp_last_step: null,
+    recovery_codes: null,
+  })
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import QRCode from "qrcode"
+import { requirePermission } from "@/lib/auth/server"
+import { generateTotpSecret, totpAuthUrl } from "@/lib/auth/totp"
+import { findUserById, updateUserRow } from "@/lib/auth/users"
+
+// Starts enrollment with a fresh secret. It stays pending until the user
+// proves their authenticator app works by posting a code to /enable.
+export async function POST() {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const user = await findUserById(auth.session.user.id)
+  if (!user) {
+    return NextResponse.json({ success: false, message: "User not found" }, { status: 404 })
+  }
+  if (user.totp_enabled) {
+    return NextResponse.json(
+      { success: false, message: "Two-factor authentication is already enabled" },
+      { status: 400 }
+    )
+  }
+
+  const secret = generateTotpSecret()
+  await updateUserRow(user.id, { totp_pending_secret: secret })
+
+  const otpauthUrl = totpAuthUrl(secret, user.username)
+  return NextResponse.json({
+    success: true,
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 }),
+  })
+}
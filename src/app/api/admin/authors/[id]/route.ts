@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { requirePermission } from "@/lib/auth/server"
+import { authorUpdateSchema, toAuthorColumns } from "@/lib/authors/schema"
+import { findAuthorById, renamePostAuthor } from "@/lib/authors/store"
+import { ADMIN_AUTHOR_COLUMNS } from "@/lib/authors/types"
+import { revalidateAuthors } from "@/lib/posts/revalidate"
+import { validationErrorResponse } from "@/lib/validation"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFoundResponse() {
+  return NextResponse.json({ success: false, message: "Author not found" }, { status: 404 })
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const auth = await requirePermission("authors:manage")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const parsed = authorUpdateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  try {
+    const existing = await findAuthorById(id)
+    if (!existing) {
+      return notFoundResponse()
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(TABLES.AUTHORS)
+      .update({ ...toAuthorColumns(parsed.data), updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(ADMIN_AUTHOR_COLUMNS)
+      .single()
+
+    if (error?.code === "23505") {
+      return NextResponse.json({ success: false, message: "That slug is already used by another author" }, { status: 409 })
+    }
+    if (error) {
+      throw error
+    }
+
+    if (data.name !== existing.name) {
+      await renamePostAuthor(id, data.name)
+    }
+
+    revalidateAuthors()
+    return NextResponse.json({ success: true, author: data })
+  } catch (error) {
+    console.error("Error updating author:", error)
+    return NextResponse.json({ success: false, message: "Failed to update author" }, { status: 500 })
+  }
+}
+
+// Posts by the author keep the name, they just no longer link to a profile
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const auth = await requirePermission("authors:manage")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const { data, error } = await supabaseAdmin.from(TABLES.AUTHORS).delete().eq("id", id).select("id").maybeSingle()
+
+  if (error) {
+    console.error("Error deleting author:", error)
+    return NextResponse.json({ success: false, message: "Failed to delete author" }, { status: 500 })
+  }
+  if (!data) {
+    return notFoundResponse()
+  }
+
+  revalidateAuthors()
+  return NextResponse.json({ success: true })
+}
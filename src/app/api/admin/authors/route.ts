@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { can } from "@/lib/auth/roles"
+import { requirePermission } from "@/lib/auth/server"
+import { authorInputSchema, toAuthorColumns } from "@/lib/authors/schema"
+import { ADMIN_AUTHOR_COLUMNS, AUTHOR_COLUMNS } from "@/lib/authors/types"
+import { revalidateAuthors } from "@/lib/posts/revalidate"
+import { slugify } from "@/lib/posts/slug"
+import { validationErrorResponse } from "@/lib/validation"
+
+// Everyone with a login may list authors, the post form picks from them.
+// The notification emails are only for those who manage the profiles.
+export async function GET() {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const columns = can(auth.session.user.role, "authors:manage") ? ADMIN_AUTHOR_COLUMNS : AUTHOR_COLUMNS
+  const { data, error } = await supabaseAdmin.from(TABLES.AUTHORS).select(columns).order("name")
+
+  if (error) {
+    console.error("Error fetching authors:", error)
+    return NextResponse.json({ success: false, message: "Failed to load authors" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, authors: data })
+}
+
+export async function POST(req: Request) {
+  const auth = await requirePermission("authors:manage")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const parsed = authorInputSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  const slug = parsed.data.slug || slugify(parsed.data.name)
+  if (!slug) {
+    return NextResponse.json({ success: false, message: "Add a slug, the name has no letters to make one from" }, { status: 400 })
+  }
+
+  const currentDate = new Date().toISOString()
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.AUTHORS)
+    .insert({ ...toAuthorColumns(parsed.data), slug, created_at: currentDate, updated_at: currentDate })
+    .select(ADMIN_AUTHOR_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error("Error creating author:", error)
+    // 23505 is a unique violation on the slug
+    const message = error.code === "23505" ? "That slug is already used by another author" : "Failed to create author"
+    return NextResponse.json({ success: false, message }, { status: error.code === "23505" ? 409 : 500 })
+  }
+
+  revalidateAuthors()
+  return NextResponse.json({ success: true, author: data }, { status: 201 })
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { requirePermission } from "@/lib/auth/server"
+import { commentModerationSchema } from "@/lib/comments/schema"
+import { revalidatePostPage } from "@/lib/posts/revalidate"
+import { validationErrorResponse } from "@/lib/validation"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFoundResponse() {
+  return NextResponse.json({ success: false, message: "Comment not found" }, { status: 404 })
+}
+
+// The slug of the post a comment is on, from the embedded post
+function postSlug(row: { post: { slug: string } | { slug: string }[] | null }) {
+  const post = Array.isArray(row.post) ? row.post[0] : row.post
+  return post?.slug ?? null
+}
+
+// Approves, rejects or marks a comment as spam
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const auth = await requirePermission("comments:moderate")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const parsed = commentModerationSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.BLOG_COMMENTS)
+    .update({
+      status: parsed.data.status,
+      moderated_by: auth.session.user.id,
+      moderated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select("id, status, post:blog_posts(slug)")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error moderating comment:", error)
+    return NextResponse.json({ success: false, message: "Failed to update comment" }, { status: 500 })
+  }
+  if (!data) {
+    return notFoundResponse()
+  }
+
+  const slug = postSlug(data)
+  if (slug) {
+    revalidatePostPage(slug)
+  }
+  return NextResponse.json({ success: true, comment: { id: data.id, status: data.status } })
+}
+
+// Replies to the comment are deleted with it
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const auth = await requirePermission("comments:moderate")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.BLOG_COMMENTS)
+    .delete()
+    .eq("id", id)
+    .select("id, post:blog_posts(slug)")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error deleting comment:", error)
+    return NextResponse.json({ success: false, message: "Failed to delete comment" }, { status: 500 })
+  }
+  if (!data) {
+    return notFoundResponse()
+  }
+
+  const slug = postSlug(data)
+  if (slug) {
+    revalidatePostPage(slug)
+  }
+  return NextResponse.json({ success: true })
+}
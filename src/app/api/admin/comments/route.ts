@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { requirePermission } from "@/lib/auth/server"
+import { COMMENT_STATUSES, type CommentStatus, isCommentStatus } from "@/lib/comments/types"
+
+const COMMENT_LIMIT = 200
+
+// The post a comment is on and the name of the comment it replies to come
+// along, the queue shows both
+const MODERATION_COLUMNS =
+  "id, post_id, parent_id, depth, name, email, body, status, spam_reasons, ip, user_agent, moderated_at, created_at, post:blog_posts(slug, title), parent:parent_id(name)"
+
+async function countByStatus() {
+  const results = await Promise.all(
+    COMMENT_STATUSES.map((status) =>
+      supabaseAdmin.from(TABLES.BLOG_COMMENTS).select("id", { count: "exact", head: true }).eq("status", status)
+    )
+  )
+  const counts = {} as Record<CommentStatus, number>
+  for (const [index, status] of COMMENT_STATUSES.entries()) {
+    const { count, error } = results[index]
+    if (error) {
+      throw error
+    }
+    counts[status] = count ?? 0
+  }
+  return counts
+}
+
+// The moderation queue, newest first. ?status= picks a status, pending by
+// default.
+export async function GET(req: Request) {
+  const auth = await requirePermission("comments:moderate")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { searchParams } = new URL(req.url)
+  const statusParam = searchParams.get("status")
+  const status = isCommentStatus(statusParam) ? statusParam : "pending"
+
+  try {
+    const [{ data, error }, counts] = await Promise.all([
+      supabaseAdmin
+        .from(TABLES.BLOG_COMMENTS)
+        .select(MODERATION_COLUMNS)
+        .eq("status", status)
+        .order("created_at", { ascending: false })
+        .limit(COMMENT_LIMIT),
+      countByStatus(),
+    ])
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true, comments: data, counts })
+  } catch (error) {
+    console.error("Error fetching comments:", error)
+    return NextResponse.json({ success: false, message: "Failed to load comments" }, { status: 500 })
+  }
+}
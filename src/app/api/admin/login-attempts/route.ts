@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { requirePermission } from "@/lib/auth/server"
+
+const OUTCOMES = ["success", "invalid_credentials", "locked", "mfa_required", "mfa_failed"]
+
+export async function GET(req: Request) {
+  const auth = await requirePermission("security:view")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { searchParams } = new URL(req.url)
+  const outcome = searchParams.get("outcome")
+  const limit = Math.min(Number(searchParams.get("limit")) || 100, 500)
+
+  let query = supabaseAdmin
+    .from(TABLES.ADMIN_LOGIN_ATTEMPTS)
+    .select("id, username, ip, user_agent, outcome, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (outcome && OUTCOMES.includes(outcome)) {
+    query = query.eq("outcome", outcome)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("Error fetching login attempts:", error)
+    return NextResponse.json({ success: false, message: "Failed to load login activity" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, attempts: data })
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { clearSessionCookie, getAdminSession, revokeAdminSession } from "@/lib/auth/server"
+
+export async function POST() {
+  const session = await getAdminSession()
+
+  try {
+    if (session) {
+      await revokeAdminSession(session.id)
+    }
+  } catch (error) {
+    console.error("Error revoking admin session:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to log out. Please try again." },
+      { status: 500 }
+    )
+  }
+
+  return clearSessionCookie(NextResponse.json({ success: true }))
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth/server"
+import { createCoverAsset } from "@/lib/media/store"
+import { MAX_UPLOAD_BYTES, type UploadedCover } from "@/lib/media/types"
+
+// Cover image uploads from the post form, sent as multipart form data with
+// the image in "file". The post is linked to the asset when it is saved.
+export async function POST(req: Request) {
+  const auth = await requirePermission("posts:create")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  let file: FormDataEntryValue | null
+  try {
+    file = (await req.formData()).get("file")
+  } catch {
+    return NextResponse.json({ success: false, message: "Send the image as form data" }, { status: 400 })
+  }
+  if (!(file instanceof File) || file.size === 0) {
+    return NextResponse.json({ success: false, message: "Choose an image to upload" }, { status: 400 })
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return NextResponse.json(
+      { success: false, message: `Images must be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` },
+      { status: 413 }
+    )
+  }
+
+  try {
+    const result = await createCoverAsset(Buffer.from(await file.arrayBuffer()), file.name || null, auth.session.user)
+    if (result.error !== null) {
+      return NextResponse.json({ success: false, message: result.error }, { status: 400 })
+    }
+
+    const { id, url, avif_url, placeholder, width, height } = result.asset
+    const asset: UploadedCover = { id, url, avif_url, placeholder, width, height }
+    return NextResponse.json({ success: true, message: "Image uploaded", asset }, { status: 201 })
+  } catch (error) {
+    console.error("Error uploading image:", error)
+    return NextResponse.json({ success: false, message: "Failed to upload image" }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { forbiddenResponse, requirePermission } from "@/lib/auth/server"
+import { can, canEditPost } from "@/lib/auth/roles"
+import { applyPostAuthor } from "@/lib/authors/store"
+import { applyCoverImage } from "@/lib/media/store"
+import { revalidateBlog } from "@/lib/posts/revalidate"
+import { ensureBaselineRevision, findRevision, recordRevision } from "@/lib/posts/revisions"
+import { toPostColumns } from "@/lib/posts/schema"
+import { isPostStatus } from "@/lib/posts/status"
+import { findPostById } from "@/lib/posts/store"
+
+type RouteContext = { params: Promise<{ id: string; revisionId: string }> }
+
+// Puts the content of an older revision back. The status and publish date
+// stay as they are, restoring never publishes or unpublishes a post.
+export async function POST(_req: Request, { params }: RouteContext) {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id, revisionId } = await params
+  try {
+    const existing = await findPostById(id)
+    if (!existing) {
+      return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 })
+    }
+    if (!canEditPost(auth.session.user, { createdBy: existing.created_by })) {
+      return forbiddenResponse("You can only edit your own posts")
+    }
+    // Restoring changes what readers see unless the post is still a draft
+    const currentStatus = isPostStatus(existing.status) ? existing.status : "draft"
+    if (currentStatus !== "draft" && !can(auth.session.user.role, "posts:publish")) {
+      return forbiddenResponse("Only editors and admins can edit published, scheduled or archived posts")
+    }
+
+    const revision = await findRevision(id, revisionId)
+    if (!revision) {
+      return NextResponse.json({ success: false, message: "Revision not found" }, { status: 404 })
+    }
+
+    await ensureBaselineRevision(existing)
+
+    const { title, excerpt, content, content_format, author, author_id, categories, tags, image, image_asset_id, featured } =
+      revision.snapshot
+    // Older revisions are sanitized again, they may predate the current rules
+    const { columns, removed } = toPostColumns(
+      { title, excerpt, content, content_format, author, author_id, categories, tags, image, featured },
+      existing
+    )
+    // Revisions from before author profiles have no author_id and keep the
+    // current one. A deleted author leaves the post with only the name.
+    if (!(await applyPostAuthor(columns, author_id))) {
+      columns.author_id = null
+    }
+    // Revisions from before uploads have no image_asset_id, their image is a
+    // URL. A cover whose upload is gone keeps just the URL as well.
+    if (!(await applyCoverImage(columns, image_asset_id ?? null))) {
+      await applyCoverImage(columns, null)
+    }
+    const { data, error } = await supabaseAdmin
+      .from(TABLES.BLOG_POSTS)
+      .update({
+        ...columns,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    try {
+      await recordRevision(data, auth.session.user, "restore", revision.id)
+    } catch (revisionError) {
+      console.error("Error recording post revision:", revisionError)
+    }
+
+    revalidateBlog()
+    return NextResponse.json({ success: true, post: data, removedContent: removed })
+  } catch (error) {
+    console.error("Error restoring post revision:", error)
+    return NextResponse.json({ success: false, message: "Failed to restore revision" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth/server"
+import { listRevisions } from "@/lib/posts/revisions"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  try {
+    const revisions = await listRevisions(id)
+    return NextResponse.json({ success: true, revisions })
+  } catch (error) {
+    console.error("Error loading post revisions:", error)
+    return NextResponse.json({ success: false, message: "Failed to load revisions" }, { status: 500 })
+  }
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { forbiddenResponse, requirePermission } from "@/lib/auth/server"
+import { can, canEditPost } from "@/lib/auth/roles"
+import { applyPostAuthor } from "@/lib/authors/store"
+import { applyCoverImage } from "@/lib/media/store"
+import { revalidateBlog } from "@/lib/posts/revalidate"
+import { ensureBaselineRevision, recordRevision } from "@/lib/posts/revisions"
+import { postUpdateSchema, toPostColumns } from "@/lib/posts/schema"
+import { isPostStatus, resolveLifecycle } from "@/lib/posts/status"
+import { findPostById, isSlugAvailable, recordSlugChange } from "@/lib/posts/store"
+import { validationErrorResponse } from "@/lib/validation"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFoundResponse() {
+  return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 })
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  try {
+    const post = await findPostById(id)
+    return post ? NextResponse.json({ success: true, post }) : notFoundResponse()
+  } catch (error) {
+    console.error("Error loading blog post:", error)
+    return NextResponse.json({ success: false, message: "Failed to load post" }, { status: 500 })
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const parsed = postUpdateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  try {
+    const existing = await findPostById(id)
+    if (!existing) {
+      return notFoundResponse()
+    }
+    if (!canEditPost(auth.session.user, { createdBy: existing.created_by })) {
+      return forbiddenResponse("You can only edit your own posts")
+    }
+    // Authors may work on their drafts, any change to a public post is publishing
+    const currentStatus = isPostStatus(existing.status) ? existing.status : "draft"
+    const canPublish = can(auth.session.user.role, "posts:publish")
+    if (currentStatus !== "draft" && !canPublish) {
+      return forbiddenResponse("Only editors and admins can edit published, scheduled or archived posts")
+    }
+
+    const { columns, removed } = toPostColumns(parsed.data, existing)
+    if (!(await applyPostAuthor(columns, parsed.data.author_id))) {
+      return NextResponse.json({ success: false, message: "That author does not exist" }, { status: 400 })
+    }
+    if (!(await applyCoverImage(columns, parsed.data.image_asset_id))) {
+      return NextResponse.json({ success: false, message: "That cover image does not exist, upload it again" }, { status: 400 })
+    }
+    const { status, publish_at } = parsed.data
+    if (status !== undefined || publish_at !== undefined) {
+      const lifecycle = resolveLifecycle({ status: status ?? currentStatus, publish_at }, existing)
+      if (lifecycle.error !== null) {
+        return NextResponse.json({ success: false, message: lifecycle.error }, { status: 400 })
+      }
+      if (lifecycle.columns.status !== "draft" && !canPublish) {
+        return forbiddenResponse("Only editors and admins can publish, schedule or archive posts")
+      }
+      Object.assign(columns, lifecycle.columns)
+    }
+
+    const newSlug = parsed.data.slug
+    const slugChanged = newSlug !== undefined && newSlug !== existing.slug
+    if (slugChanged && !(await isSlugAvailable(newSlug, id))) {
+      return NextResponse.json({ success: false, message: "That slug is already used by another post" }, { status: 409 })
+    }
+
+    await ensureBaselineRevision(existing)
+
+    const { data, error } = await supabaseAdmin
+      .from(TABLES.BLOG_POSTS)
+      .update({ ...columns, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    if (slugChanged) {
+      await recordSlugChange(id, existing.slug, data.slug)
+    }
+
+    try {
+      await recordRevision(data, auth.session.user, "edit")
+    } catch (revisionError) {
+      // The edit is saved and the previous version is already in the history
+      console.error("Error recording post revision:", revisionError)
+    }
+
+    revalidateBlog()
+    return NextResponse.json({ success: true, post: data, removedContent: removed })
+  } catch (error) {
+    console.error("Error updating blog post:", error)
+    return NextResponse.json({ success: false, message: "Failed to update post" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const auth = await requirePermission("posts:delete")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const { data, error } = await supabaseAdmin.from(TABLES.BLOG_POSTS).delete().eq("id", id).select("id").maybeSingle()
+
+  if (error) {
+    console.error("Error deleting blog post:", error)
+    return NextResponse.json({ success: false, message: "Failed to delete post" }, { status: 500 })
+  }
+  if (!data) {
+    return notFoundResponse()
+  }
+
+  revalidateBlog()
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { forbiddenResponse, requirePermission } from "@/lib/auth/server"
+import { can } from "@/lib/auth/roles"
+import { applyPostAuthor } from "@/lib/authors/store"
+import { applyCoverImage } from "@/lib/media/store"
+import { postInputSchema, toPostColumns } from "@/lib/posts/schema"
+import { revalidateBlog } from "@/lib/posts/revalidate"
+import { recordRevision } from "@/lib/posts/revisions"
+import { resolveLifecycle } from "@/lib/posts/status"
+import { findAvailableSlug, isSlugAvailable } from "@/lib/posts/store"
+import { validationErrorResponse } from "@/lib/validation"
+
+export async function GET() {
+  const auth = await requirePermission()
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.BLOG_POSTS)
+    .select("*")
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching blog posts:", error)
+    return NextResponse.json({ success: false, message: "Failed to load blog posts" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, posts: data })
+}
+
+export async function POST(req: Request) {
+  const auth = await requirePermission("posts:create")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const parsed = postInputSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  const lifecycle = resolveLifecycle(parsed.data, null)
+  if (lifecycle.error !== null) {
+    return NextResponse.json({ success: false, message: lifecycle.error }, { status: 400 })
+  }
+  if (lifecycle.columns.status !== "draft" && !can(auth.session.user.role, "posts:publish")) {
+    return forbiddenResponse("Only editors and admins can publish posts, save it as a draft instead")
+  }
+
+  const { columns, removed } = toPostColumns(parsed.data)
+  try {
+    if (!(await applyPostAuthor(columns, parsed.data.author_id))) {
+      return NextResponse.json({ success: false, message: "That author does not exist" }, { status: 400 })
+    }
+    if (!(await applyCoverImage(columns, parsed.data.image_asset_id))) {
+      return NextResponse.json({ success: false, message: "That cover image does not exist, upload it again" }, { status: 400 })
+    }
+  } catch (error) {
+    console.error("Error loading post author or cover:", error)
+    return NextResponse.json({ success: false, message: "Failed to create blog post" }, { status: 500 })
+  }
+
+  const currentDate = new Date().toISOString()
+  const insertPost = (slug: string) =>
+    supabaseAdmin
+      .from(TABLES.BLOG_POSTS)
+      .insert({
+        ...columns,
+        slug,
+        author: (columns.author as string | undefined) || auth.session.user.displayName,
+        created_by: auth.session.user.id,
+        date: currentDate,
+        ...lifecycle.columns,
+        created_at: currentDate,
+        updated_at: currentDate,
+      })
+      .select()
+      .single()
+
+  let result: Awaited<ReturnType<typeof insertPost>>
+  try {
+    const requestedSlug = parsed.data.slug
+    if (requestedSlug && !(await isSlugAvailable(requestedSlug))) {
+      return NextResponse.json({ success: false, message: "That slug is already used by another post" }, { status: 409 })
+    }
+
+    result = await insertPost(requestedSlug || (await findAvailableSlug(parsed.data.title)))
+    // 23505 is a unique violation, another post took the generated slug in
+    // the meantime so try the next free one
+    if (result.error?.code === "23505" && !requestedSlug) {
+      result = await insertPost(await findAvailableSlug(parsed.data.title))
+    }
+  } catch (error) {
+    console.error("Error choosing a slug:", error)
+    return NextResponse.json({ success: false, message: "Failed to create blog post" }, { status: 500 })
+  }
+
+  const { data, error } = result
+  if (error) {
+    console.error("Error creating blog post:", error)
+    const message = error.code === "23505" ? "That slug is already used by another post" : "Failed to create blog post"
+    return NextResponse.json({ success: false, message }, { status: error.code === "23505" ? 409 : 500 })
+  }
+
+  try {
+    await recordRevision(data, auth.session.user, "create")
+  } catch (revisionError) {
+    // The post itself is saved, the next edit records a baseline instead
+    console.error("Error recording post revision:", revisionError)
+  }
+
+  revalidateBlog()
+  return NextResponse.json({ success: true, post: data, removedContent: removed }, { status: 201 })
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { getAdminSession, unauthorizedResponse } from "@/lib/auth/server"
+
+export async function GET() {
+  const session = await getAdminSession()
+  if (!session) {
+    return unauthorizedResponse()
+  }
+
+  return NextResponse.json({
+    success: true,
+    user: session.user,
+    expiresAt: session.expiresAt.toISOString(),
+  })
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { requirePermission } from "@/lib/auth/server"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const auth = await requirePermission("subscribers:manage")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const { data, error } = await supabaseAdmin.from(TABLES.SUBSCRIBERS).delete().eq("id", id).select("id").maybeSingle()
+
+  if (error) {
+    console.error("Error removing subscriber:", error)
+    return NextResponse.json({ success: false, message: "Failed to remove subscriber" }, { status: 500 })
+  }
+  if (!data) {
+    return NextResponse.json({ success: false, message: "Subscriber not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
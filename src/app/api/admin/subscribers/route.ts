@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { requirePermission } from "@/lib/auth/server"
+
+export async function GET() {
+  const auth = await requirePermission("subscribers:manage")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.SUBSCRIBERS)
+    .select("*")
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching subscribers:", error)
+    return NextResponse.json({ success: false, message: "Failed to load subscribers" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, subscribers: data })
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { requirePermission } from "@/lib/auth/server"
+import { hashPassword } from "@/lib/auth/password"
+import { ROLES } from "@/lib/auth/roles"
+import { ADMIN_USER_COLUMNS } from "@/lib/auth/users"
+import { validationErrorResponse } from "@/lib/validation"
+
+const updateUserSchema = z.object({
+  displayName: z.string().trim().min(1).max(100).optional(),
+  password: z.string().min(12, "Password must be at least 12 characters").optional(),
+  role: z.enum(ROLES).optional(),
+  disabled: z.boolean().optional(),
+  // Lets an admin help a team member who lost their authenticator and recovery codes
+  resetTwoFactor: z.literal(true).optional(),
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const auth = await requirePermission("users:manage")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const parsed = updateUserSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  const { displayName, password, role, disabled, resetTwoFactor } = parsed.data
+
+  // Stop admins from locking themselves out of user management
+  if (id === auth.session.user.id && ((role && role !== "admin") || disabled)) {
+    return NextResponse.json(
+      { success: false, message: "You cannot demote or disable your own account" },
+      { status: 400 }
+    )
+  }
+
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (displayName !== undefined) update.display_name = displayName
+  if (role !== undefined) update.role = role
+  if (disabled !== undefined) update.disabled = disabled
+  if (password !== undefined) update.password_hash = await hashPassword(password)
+  if (resetTwoFactor) {
+    Object.assign(update, {
+      totp_enabled: false,
+      totp_secret: null,
+      totp_pending_secret: null,
+      totp_last_step: null,
+      recovery_codes: null,
+    })
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.ADMIN_USERS)
+    .update(update)
+    .eq("id", id)
+    .select(ADMIN_USER_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error updating admin user:", error)
+    return NextResponse.json({ success: false, message: "Failed to update user" }, { status: 500 })
+  }
+  if (!data) {
+    return NextResponse.json({ success: false, message: "User not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, user: data })
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const auth = await requirePermission("users:manage")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { id } = await params
+  if (id === auth.session.user.id) {
+    return NextResponse.json(
+      { success: false, message: "You cannot delete your own account" },
+      { status: 400 }
+    )
+  }
+
+  const { error } = await supabaseAdmin.from(TABLES.ADMIN_USERS).delete().eq("id", id)
+
+  if (error) {
+    console.error("Error deleting admin user:", error)
+    return NextResponse.json({ success: false, message: "Failed to delete user" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { requirePermission } from "@/lib/auth/server"
+import { hashPassword } from "@/lib/auth/password"
+import { ROLES } from "@/lib/auth/roles"
+import { ADMIN_USER_COLUMNS } from "@/lib/auth/users"
+import { validationErrorResponse } from "@/lib/validation"
+
+const createUserSchema = z.object({
+  username: z.string().trim().toLowerCase().min(3).max(50).regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  displayName: z.string().trim().max(100).optional(),
+  password: z.string().min(12, "Password must be at least 12 characters"),
+  role: z.enum(ROLES),
+})
+
+export async function GET() {
+  const auth = await requirePermission("users:manage")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.ADMIN_USERS)
+    .select(ADMIN_USER_COLUMNS)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching admin users:", error)
+    return NextResponse.json({ success: false, message: "Failed to load users" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, users: data })
+}
+
+export async function POST(req: Request) {
+  const auth = await requirePermission("users:manage")
+  if (!auth.session) {
+    return auth.response
+  }
+
+  const parsed = createUserSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  const { username, displayName, password, role } = parsed.data
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.ADMIN_USERS)
+    .insert({
+      username,
+      display_name: displayName || username,
+      password_hash: await hashPassword(password),
+      role,
+    })
+    .select(ADMIN_USER_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error("Error creating admin user:", error)
+    // 23505 is a unique violation on the username
+    const message = error.code === "23505" ? "That username is already taken" : "Failed to create user"
+    return NextResponse.json({ success: false, message }, { status: error.code === "23505" ? 409 : 500 })
+  }
+
+  return NextResponse.json({ success: true, user: data }, { status: 201 })
+}
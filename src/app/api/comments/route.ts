@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server"
+import { TABLES } from "@/lib/supabase"
+import { supabaseAdmin } from "@/lib/supabase-admin"
+import { getRequestInfo } from "@/lib/auth/server"
+import { notifyNewComment } from "@/lib/comments/notify"
+import { commentInputSchema } from "@/lib/comments/schema"
+import { spamReasons } from "@/lib/comments/spam"
+import { findCommentById, isCommentRateLimited, isDuplicateComment } from "@/lib/comments/store"
+import { MAX_COMMENT_DEPTH } from "@/lib/comments/types"
+import { isLive } from "@/lib/posts/status"
+import { findPostById } from "@/lib/posts/store"
+import { validationErrorResponse } from "@/lib/validation"
+
+// The same answer whether the comment was held for moderation or taken for
+// spam, so spammers learn nothing from it
+const RECEIVED_MESSAGE = "Thanks! Your comment will show up once it has been approved."
+
+// Public endpoint for the comment form on /blog/<slug>. Every comment waits
+// for a moderator, see the Comments tab of the dashboard.
+export async function POST(req: Request) {
+  const parsed = commentInputSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  const { website, parent_id, ...input } = parsed.data
+  const { ip, userAgent } = getRequestInfo(req)
+
+  try {
+    if (await isCommentRateLimited(ip)) {
+      return NextResponse.json(
+        { success: false, message: "You are commenting too quickly. Please try again in a few minutes." },
+        { status: 429 }
+      )
+    }
+
+    const post = await findPostById(input.post_id)
+    if (!post || !isLive(post)) {
+      return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 })
+    }
+
+    let depth = 0
+    if (parent_id) {
+      const parent = await findCommentById(parent_id)
+      if (!parent || parent.post_id !== post.id || parent.status !== "approved" || parent.depth >= MAX_COMMENT_DEPTH) {
+        return NextResponse.json({ success: false, message: "That comment can no longer be replied to" }, { status: 400 })
+      }
+      depth = parent.depth + 1
+    }
+
+    const reasons = spamReasons({ ...input, website })
+    if (await isDuplicateComment(input)) {
+      reasons.push("Duplicate of an earlier comment")
+    }
+
+    const { data: comment, error } = await supabaseAdmin
+      .from(TABLES.BLOG_COMMENTS)
+      .insert({
+        ...input,
+        parent_id: parent_id ?? null,
+        depth,
+        status: reasons.length > 0 ? "spam" : "pending",
+        spam_reasons: reasons,
+        ip,
+        user_agent: userAgent,
+      })
+      .select("id, parent_id, name, email, body, created_at")
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    if (reasons.length === 0) {
+      await notifyNewComment({ comment, post })
+    }
+
+    return NextResponse.json({ success: true, message: RECEIVED_MESSAGE }, { status: 201 })
+  } catch (error) {
+    console.error("Error saving comment:", error)
+    return NextResponse.json({ success: false, message: "Failed to save your comment. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { isLivePostId, setPostReaction } from "@/lib/posts/engagement"
+import { isReactionKey } from "@/lib/posts/reactions"
+import { validationErrorResponse } from "@/lib/validation"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const reactionSchema = z.object({
+  // Kept in the reader's browser, see post-engagement.tsx
+  reader_id: z.string().uuid("Invalid reader"),
+  reaction: z.string().refine(isReactionKey, { message: "Unknown reaction" }),
+  // false takes the reaction back
+  active: z.boolean().default(true),
+})
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { id } = await params
+  const parsed = reactionSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  const { reader_id, reaction, active } = parsed.data
+  try {
+    if (!(await isLivePostId(id))) {
+      return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 })
+    }
+
+    const reactions = await setPostReaction(id, reader_id, reaction, active)
+    return NextResponse.json({ success: true, reactions })
+  } catch (error) {
+    console.error("Error saving reaction:", error)
+    return NextResponse.json({ success: false, message: "Failed to save your reaction" }, { status: 500 })
+  }
+}
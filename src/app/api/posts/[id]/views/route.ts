@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getRequestInfo } from "@/lib/auth/server"
+import { hashViewerIp, isLivePostId, recordPostView } from "@/lib/posts/engagement"
+import { validationErrorResponse } from "@/lib/validation"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const viewSchema = z.object({
+  // Made up by the browser for the session, see post-engagement.tsx
+  session_id: z.string().uuid("Invalid session"),
+})
+
+// Crawlers and link previews fetch pages without reading them
+const BOT_PATTERN = /bot|crawl|spider|slurp|preview|headless|lighthouse/i
+
+// Do Not Track and Global Privacy Control
+function optedOut(req: Request) {
+  return req.headers.get("dnt") === "1" || req.headers.get("sec-gpc") === "1"
+}
+
+// First-party view counting for the post page. Nothing is stored for
+// readers who opted out of tracking, a session counts once per post and an
+// address only so many times in a while.
+export async function POST(req: Request, { params }: RouteContext) {
+  if (optedOut(req) || BOT_PATTERN.test(req.headers.get("user-agent") ?? "")) {
+    return NextResponse.json({ success: true, recorded: false })
+  }
+
+  const { id } = await params
+  const parsed = viewSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  try {
+    if (!(await isLivePostId(id))) {
+      return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 })
+    }
+
+    const result = await recordPostView(id, parsed.data.session_id, hashViewerIp(getRequestInfo(req).ip))
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error recording post view:", error)
+    return NextResponse.json({ success: false, message: "Failed to record the view" }, { status: 500 })
+  }
+}
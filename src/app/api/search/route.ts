@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { SEARCH_QUERY_MAX_LENGTH, searchPosts } from "@/lib/posts/search"
+import { validationErrorResponse } from "@/lib/validation"
+
+const searchSchema = z.object({
+  q: z.string().trim().max(SEARCH_QUERY_MAX_LENGTH, `Search for at most ${SEARCH_QUERY_MAX_LENGTH} characters`),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+// Public search over live posts as JSON, /blog itself searches on the server
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const parsed = searchSchema.safeParse({
+    q: searchParams.get("q") ?? "",
+    limit: searchParams.get("limit") ?? undefined,
+    offset: searchParams.get("offset") ?? undefined,
+  })
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  try {
+    const { q, limit, offset } = parsed.data
+    const results = await searchPosts(q, { limit, offset })
+    return NextResponse.json(
+      { success: true, query: q, results },
+      // Popular searches are served from the CDN for a minute
+      { headers: { "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300" } }
+    )
+  } catch (error) {
+    console.error("Error searching posts:", error)
+    return NextResponse.json({ success: false, message: "Search failed" }, { status: 500 })
+  }
+}
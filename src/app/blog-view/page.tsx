@@ -0,0 +1,17 @@
+import type { Metadata } from "next"
+import BlogIndex, { blogIndexMetadata } from "@/components/blog/blog-index"
+import { type SearchParams, parseBlogView } from "@/lib/posts/listing"
+
+// /blog with a category, search or page in the query string. middleware.ts
+// rewrites those requests here, the address stays /blog?...
+type BlogViewPageProps = {
+  searchParams: Promise<SearchParams>
+}
+
+export async function generateMetadata({ searchParams }: BlogViewPageProps): Promise<Metadata> {
+  return blogIndexMetadata(parseBlogView(await searchParams))
+}
+
+export default async function BlogViewPage({ searchParams }: BlogViewPageProps) {
+  return <BlogIndex view={parseBlogView(await searchParams)} />
+}
@@ -0,0 +1,14 @@
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+
+export default function BlogPostNotFound() {
+  return (
+    <div className="flex min-h-screen items-center justify-center flex-col gap-4">
+      <h1 className="text-2xl font-bold">Blog post not found</h1>
+      <p>The blog post you're looking for doesn't exist or has been removed.</p>
+      <Button asChild>
+        <Link href="/blog">Back to Blog</Link>
+      </Button>
+    </div>
+  )
+}
@@ -1,8 +1,7 @@
-"use client"
-
-import { useState, useEffect } from "react"
+import type { Metadata } from "next"
 import Image from "next/image"
 import Link from "next/link"
+import { notFound, permanentRedirect } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import {
   ChevronRight,
@@ -15,302 +14,146 @@ import {
   Linkedin,
   Link2,
   ArrowLeft,
+  Eye,
   Tag
 } from "lucide-react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
-import { supabase, TABLES } from "@/lib/supabase"
-import { toast } from "sonner"
-
-// Define the BlogPost interface
-interface BlogPost {
-  id: string;
-  title: string;
-  excerpt: string;
-  content: string;
-  author: string;
-  date: string;
-  readTime?: string;
-  read_time?: string;
-  categories: string[];
-  tags: string[];
-  image: string;
-  featured: boolean;
-}
-
-// Related posts type
-interface RelatedPost {
-  id: string;
-  title: string;
-  excerpt: string;
-  image: string;
-  author: string;
-  date: string;
+import AuthorLinks from "@/components/blog/author-links"
+import Comments, { type CommentView } from "@/components/blog/comments"
+import NewsletterForm from "@/components/blog/newsletter-form"
+import CoverImage from "@/components/blog/cover-image"
+import PostEngagement from "@/components/blog/post-engagement"
+import TableOfContents from "@/components/blog/table-of-contents"
+import JsonLd from "@/components/seo/json-ld"
+import { getAuthorById } from "@/lib/authors/queries"
+import { countComments, listCommentThreads } from "@/lib/comments/queries"
+import type { CommentThread } from "@/lib/comments/types"
+import { renderPostContent } from "@/lib/content/render"
+import { addHeadingAnchors } from "@/lib/content/toc"
+import { feedAlternates } from "@/lib/feed"
+import { SHARE_CARD_SIZE, postShareImagePath } from "@/lib/og"
+import { formatCount, formatPostDate } from "@/lib/posts/format"
+import { authorHref, categoryHref, tagHref } from "@/lib/posts/listing"
+import { findCurrentSlug, getLivePost, listCategories, listLivePosts } from "@/lib/posts/queries"
+import { findRelatedPosts } from "@/lib/posts/related"
+import type { BlogPostRow } from "@/lib/posts/types"
+import { SITE_NAME } from "@/lib/site"
+import { blogPostingJsonLd } from "@/lib/structured-data"
+
+interface BlogPostPageProps {
+  params: Promise<{ slug: string }>
 }
 
-export default function BlogPostPage({ params }: { params: { slug: string } }) {
-  const [blogPost, setBlogPost] = useState<BlogPost | null>(null)
-  const [relatedPosts, setRelatedPosts] = useState<RelatedPost[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [email, setEmail] = useState("")
-  const [isSubmitting, setIsSubmitting] = useState(false)
-
-  useEffect(() => {
-    const fetchBlogPost = async () => {
-      setIsLoading(true)
-      try {
-        // Check if Supabase is properly configured
-        if (!supabase) {
-          console.warn("Supabase client not initialized properly")
-          // Try to fetch from localStorage as fallback
-          fetchFromLocalStorage()
-          return
-        }
-
-        // Fetch the blog post from Supabase
-        const { data, error } = await supabase
-          .from(TABLES.BLOG_POSTS)
-          .select('*')
-          .eq('id', params.slug)
-          .single()
-
-        if (error) {
-          throw error
-        }
-
-        if (data) {
-          // Transform the data to match our expected format
-          const formattedPost = {
-            id: data.id,
-            title: data.title,
-            excerpt: data.excerpt,
-            content: data.content,
-            author: data.author,
-            date: new Date(data.date).toLocaleDateString("en-US", {
-              year: "numeric",
-              month: "long",
-              day: "numeric"
-            }),
-            readTime: data.read_time,
-            read_time: data.read_time,
-            categories: data.categories,
-            tags: data.tags,
-            image: data.image,
-            featured: data.featured
-          }
-
-          setBlogPost(formattedPost)
-          
-          // Fetch related posts based on categories
-          await fetchRelatedPosts(data.categories)
-        } else {
-          // If not found in Supabase, try localStorage
-          fetchFromLocalStorage()
-        }
-      } catch (error) {
-        console.error("Error fetching blog post:", error)
-        toast.error("Failed to load blog post")
-        // Try to fetch from localStorage as fallback
-        fetchFromLocalStorage()
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    const fetchFromLocalStorage = () => {
-      // Try to get the post from localStorage
-      const savedPosts = localStorage.getItem("blogPosts")
-      if (savedPosts) {
-        const posts = JSON.parse(savedPosts)
-        const post = posts.find((p: BlogPost) => p.id === params.slug)
-        
-        if (post) {
-          setBlogPost(post)
-          
-          // Get related posts from localStorage
-          const relatedPosts = posts
-            .filter((p: BlogPost) => p.id !== params.slug)
-            .filter((p: BlogPost) => {
-              // Find posts with at least one matching category
-              return p.categories.some((cat: string) => 
-                post.categories.includes(cat)
-              )
-            })
-            .slice(0, 3)
-            
-          setRelatedPosts(relatedPosts)
-        }
-      }
-    }
-
-    const fetchRelatedPosts = async (categories: string[]) => {
-      try {
-        if (!supabase) return
-        
-        // Fetch posts that share categories with the current post
-        const { data, error } = await supabase
-          .from(TABLES.BLOG_POSTS)
-          .select('*')
-          .neq('id', params.slug) // Exclude current post
-          .filter('categories', 'cs', `{${categories.join(',')}}`) // Filter by categories
-          .limit(3)
-          
-        if (error) {
-          throw error
-        }
-        
-        if (data) {
-          // Format the related posts
-          const formattedRelatedPosts = data.map(post => ({
-            id: post.id,
-            title: post.title,
-            excerpt: post.excerpt,
-            image: post.image,
-            author: post.author,
-            date: new Date(post.date).toLocaleDateString("en-US", {
-              year: "numeric",
-              month: "long",
-              day: "numeric"
-            })
-          }))
-          
-          setRelatedPosts(formattedRelatedPosts)
-        }
-      } catch (error) {
-        console.error("Error fetching related posts:", error)
-      }
-    }
-
-    fetchBlogPost()
-  }, [params.slug])
+// Shorter posts get no table of contents
+const MIN_TOC_HEADINGS = 2
 
-  const handleSubscribe = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setIsSubmitting(true)
+// Scheduled posts go live without a save that would regenerate the page, so
+// it is also regenerated every five minutes
+export const revalidate = 300
 
-    if (!email.trim() || !email.includes('@')) {
-      toast.error("Please enter a valid email address")
-      setIsSubmitting(false)
-      return
-    }
-
-    try {
-      // Check if Supabase is properly configured
-      if (!supabase) {
-        throw new Error("Database not configured")
-      }
-
-      // Check if the email already exists in Supabase
-      const { data: existingSubscribers, error: checkError } = await supabase
-        .from(TABLES.SUBSCRIBERS)
-        .select('email')
-        .eq('email', email.trim())
-
-      if (checkError) {
-        throw checkError
-      }
-
-      if (existingSubscribers && existingSubscribers.length > 0) {
-        toast.error("This email is already subscribed")
-        setIsSubmitting(false)
-        return
-      }
-
-      // Create a new subscriber
-      const currentDate = new Date()
-      const subscriber = {
-        email: email.trim(),
-        date: currentDate.toISOString(),
-        created_at: currentDate.toISOString()
-      }
-
-      // Insert the subscriber into Supabase
-      const { error } = await supabase
-        .from(TABLES.SUBSCRIBERS)
-        .insert(subscriber)
-
-      if (error) {
-        throw error
-      }
-
-      // Reset email field
-      setEmail("")
-
-      // Show success message
-      toast.success("Thank you for subscribing to our newsletter!")
-    } catch (error) {
-      console.error("Error saving subscriber to Supabase:", error)
-      if (error instanceof Error) {
-        toast.error("Failed to subscribe. " + (error.message || "Please try again."))
-      } else {
-        toast.error("Failed to subscribe. Please try again.")
-      }
-
-      // Fallback to localStorage
-      try {
-        // Create a new subscriber for localStorage
-        const newSubscriber = {
-          id: Date.now().toString(),
-          email: email.trim(),
-          date: new Date().toLocaleDateString("en-US", {
-            year: "numeric",
-            month: "long",
-            day: "numeric"
-          })
-        }
+// Live posts are rendered at build time, newer ones on their first visit
+export async function generateStaticParams() {
+  const posts = await listLivePosts()
+  return posts.map(post => ({ slug: post.slug }))
+}
 
-        // Get existing subscribers from localStorage
-        const existingSubscribersJSON = localStorage.getItem("subscribers")
-        const existingSubscribers = existingSubscribersJSON
-          ? JSON.parse(existingSubscribersJSON)
-          : []
+export async function generateMetadata({ params }: BlogPostPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const post = await getLivePost(slug)
+  if (!post) {
+    // The page redirects or shows the not found page
+    return {}
+  }
 
-        // Check if email already exists in localStorage
-        if (existingSubscribers.some((sub: { email: string }) => sub.email === email)) {
-          toast.error("This email is already subscribed")
-          return
-        }
+  const url = `/blog/${post.slug}`
+  // The generated card rather than the cover image, which is often the
+  // placeholder
+  const images = [{ url: postShareImagePath(post.slug, post.updated_at), ...SHARE_CARD_SIZE, alt: post.title }]
+  return {
+    title: post.title,
+    description: post.excerpt,
+    authors: [{ name: post.author }],
+    keywords: post.tags,
+    alternates: { canonical: url, types: feedAlternates() },
+    openGraph: {
+      type: "article",
+      url,
+      siteName: SITE_NAME,
+      title: post.title,
+      description: post.excerpt,
+      images,
+      publishedTime: post.publish_at ?? post.date,
+      modifiedTime: post.updated_at,
+      authors: [post.author],
+      section: post.categories[0],
+      tags: post.tags,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: post.title,
+      description: post.excerpt,
+      images,
+    },
+  }
+}
 
-        // Add new subscriber to localStorage
-        const updatedSubscribers = [...existingSubscribers, newSubscriber]
-        localStorage.setItem("subscribers", JSON.stringify(updatedSubscribers))
+// Related posts never stop the page from rendering, it just shows none
+async function getRelatedPosts(post: BlogPostRow) {
+  try {
+    const related = await findRelatedPosts(post)
+    return related.map(relatedPost => ({ ...relatedPost, date: formatPostDate(relatedPost.date) }))
+  } catch (error) {
+    console.error("Error fetching related posts:", error)
+    return []
+  }
+}
 
-        // Reset email field
-        setEmail("")
+function toCommentView({ id, depth, name, body, created_at, replies }: CommentThread): CommentView {
+  return { id, depth, name, body, date: formatPostDate(created_at), replies: replies.map(toCommentView) }
+}
 
-        // Show success message
-        toast.success("Thank you for subscribing to our newsletter! (Saved locally)")
-      } catch (localError) {
-        console.error("Error saving to localStorage:", localError)
-        toast.error("Failed to subscribe to newsletter.")
-      }
-    } finally {
-      setIsSubmitting(false)
-    }
+// Like the related posts, comments failing to load only hide them
+async function getComments(post: BlogPostRow) {
+  try {
+    const threads = await listCommentThreads(post.id)
+    return { comments: threads.map(toCommentView), count: countComments(threads) }
+  } catch (error) {
+    console.error("Error fetching comments:", error)
+    return { comments: [], count: 0 }
   }
+}
 
-  if (isLoading) {
-    return (
-      <div className="flex min-h-screen items-center justify-center">
-        <p>Loading blog post...</p>
-      </div>
-    )
+export default async function BlogPostPage({ params }: BlogPostPageProps) {
+  const { slug } = await params
+  const post = await getLivePost(slug)
+  if (!post) {
+    const currentSlug = await findCurrentSlug(slug)
+    if (currentSlug) {
+      permanentRedirect(`/blog/${currentSlug}`)
+    }
+    notFound()
   }
 
-  if (!blogPost) {
-    return (
-      <div className="flex min-h-screen items-center justify-center flex-col gap-4">
-        <h1 className="text-2xl font-bold">Blog post not found</h1>
-        <p>The blog post you're looking for doesn't exist or has been removed.</p>
-        <Button asChild>
-          <Link href="/blog">Back to Blog</Link>
-        </Button>
-      </div>
-    )
-  }
+  const [relatedPosts, categories, author, { comments, count: commentCount }] = await Promise.all([
+    getRelatedPosts(post),
+    listCategories(),
+    post.author_id ? getAuthorById(post.author_id) : null,
+    getComments(post)
+  ])
+  const authorAvatar = author?.avatar || "https://placehold.co/80x80/120a32/fff"
+  // Markdown is rendered and sanitized here on the server, the browser only
+  // gets the cleaned HTML
+  const { html: renderedHtml } = renderPostContent(post.content, post.content_format)
+  // Headings get ids for the table of contents, "comments" is taken by the
+  // comments further down
+  const { html: contentHtml, headings } = addHeadingAnchors(renderedHtml, ["comments"])
+  const showToc = headings.length >= MIN_TOC_HEADINGS
+  const blogPost = { ...post, date: formatPostDate(post.date), readTime: post.read_time }
 
   return (
     <div className="flex flex-col">
+      <JsonLd data={blogPostingJsonLd(post, author)} />
       {/* Hero Section */}
       <section className="py-16 bg-gray-50">
         <div className="container-custom">
@@ -324,10 +167,10 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
             </div>
 
             <div className="flex flex-wrap gap-2 mb-4">
-              {blogPost.categories.map((category, idx) => (
+              {blogPost.categories.map((category) => (
                 <Link
-                  key={idx}
-                  href={`/blog?category=${category.toLowerCase().replace(' ', '-')}`}
+                  key={category}
+                  href={categoryHref(category)}
                   className="px-3 py-1 bg-brand-teal/10 text-brand-teal text-xs rounded-full hover:bg-brand-teal/20 transition-colors"
                 >
                   {category}
@@ -337,18 +180,28 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
 
             <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold mb-6">{blogPost.title}</h1>
 
-            <div className="flex items-center gap-6 text-sm text-gray-600 mb-8">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-600 mb-8">
               <div className="flex items-center gap-1">
                 <Calendar className="h-4 w-4" />
                 <span>{blogPost.date}</span>
               </div>
               <div className="flex items-center gap-1">
                 <Clock className="h-4 w-4" />
-                <span>{blogPost.readTime || blogPost.read_time}</span>
+                <span>{blogPost.readTime}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Eye className="h-4 w-4" />
+                <span>{formatCount(post.view_count)} views</span>
               </div>
               <div className="flex items-center gap-1">
                 <User className="h-4 w-4" />
-                <span>{blogPost.author}</span>
+                {author ? (
+                  <Link href={authorHref(author.slug)} className="hover:text-brand-teal transition-colors">
+                    {blogPost.author}
+                  </Link>
+                ) : (
+                  <span>{blogPost.author}</span>
+                )}
               </div>
             </div>
           </div>
@@ -360,11 +213,12 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
         <div className="container-custom">
           <div className="max-w-4xl mx-auto">
             <div className="relative aspect-[16/9] rounded-xl overflow-hidden shadow-lg">
-              <Image
+              <CoverImage
                 src={blogPost.image}
+                avif={blogPost.image_avif}
+                placeholder={blogPost.image_placeholder}
                 alt={blogPost.title}
-                fill
-                className="object-cover"
+                priority
               />
             </div>
           </div>
@@ -377,20 +231,29 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
             {/* Main Content */}
             <div className="lg:col-span-8">
-              <div className="prose prose-lg max-w-none prose-headings:font-bold prose-headings:text-gray-900 prose-p:text-gray-700 prose-a:text-brand-teal prose-a:no-underline hover:prose-a:underline prose-img:rounded-lg prose-img:shadow-md">
-                {/* Render the blog content */}
-                <div dangerouslySetInnerHTML={{ __html: blogPost.content }} />
-              </div>
+              {showToc && (
+                <details className="lg:hidden mb-8 p-4 bg-gray-50 rounded-xl">
+                  <summary className="font-semibold cursor-pointer">Table of Contents</summary>
+                  <div className="mt-4">
+                    <TableOfContents headings={headings} />
+                  </div>
+                </details>
+              )}
+
+              {/* biome-ignore lint/security/noDangerouslySetInnerHtml: renderPostContent runs the allow-list sanitizer */}
+              <div className="post-content text-lg" dangerouslySetInnerHTML={{ __html: contentHtml }} />
+
+              <PostEngagement postId={post.id} reactions={post.reaction_counts} />
 
               {/* Tags */}
               {blogPost.tags && blogPost.tags.length > 0 && (
                 <div className="mt-10 pt-6 border-t">
                   <div className="flex flex-wrap items-center gap-2">
                     <span className="font-semibold text-gray-700">Tags:</span>
-                    {blogPost.tags.map((tag, idx) => (
+                    {blogPost.tags.map((tag) => (
                       <Link
-                        key={idx}
-                        href={`/blog?tag=${tag.toLowerCase().replace(' ', '-')}`}
+                        key={tag}
+                        href={tagHref(tag)}
                         className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded-full hover:bg-gray-200 transition-colors"
                       >
                         {tag}
@@ -426,22 +289,34 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
                 <div className="flex items-center gap-4">
                   <div className="relative h-16 w-16 rounded-full overflow-hidden">
                     <Image
-                      src="https://placehold.co/80x80/120a32/fff"
+                      src={authorAvatar}
                       alt={blogPost.author}
                       fill
                       className="object-cover"
                     />
                   </div>
                   <div>
-                    <h3 className="font-bold text-lg">{blogPost.author}</h3>
-                    <p className="text-gray-600">Content Creator</p>
+                    <h3 className="font-bold text-lg">
+                      {author ? (
+                        <Link href={authorHref(author.slug)} className="hover:text-brand-teal transition-colors">
+                          {blogPost.author}
+                        </Link>
+                      ) : (
+                        blogPost.author
+                      )}
+                    </h3>
+                    <p className="text-gray-600">{author?.role || "Content Creator"}</p>
                   </div>
                 </div>
-                <p className="mt-4 text-gray-600">
-                  {blogPost.author} is a content creator with expertise in digital marketing and technology. They help businesses improve their online presence through effective content strategies.
+                <p className="mt-4 text-gray-600 whitespace-pre-line">
+                  {author?.bio ||
+                    `${blogPost.author} is a content creator with expertise in digital marketing and technology. They help businesses improve their online presence through effective content strategies.`}
                 </p>
+                {author && <AuthorLinks links={author.social_links} className="mt-4" />}
               </div>
 
+              <Comments postId={post.id} comments={comments} count={commentCount} />
+
               {/* Navigation */}
               <div className="mt-10 flex items-center justify-between">
                 <Button asChild variant="outline" className="flex items-center gap-2">
@@ -461,19 +336,23 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
                   <div className="flex flex-col items-center text-center">
                     <div className="relative h-24 w-24 rounded-full overflow-hidden mb-4">
                       <Image
-                        src="https://placehold.co/80x80/120a32/fff"
+                        src={authorAvatar}
                         alt={blogPost.author}
                         fill
                         className="object-cover"
                       />
                     </div>
                     <h3 className="font-bold text-lg">{blogPost.author}</h3>
-                    <p className="text-gray-600 mb-4">Content Creator</p>
-                    <p className="text-sm text-gray-600">
-                      Expert with a passion for helping businesses improve their online visibility through effective content strategies.
-                    </p>
+                    <p className="text-gray-600 mb-4">{author?.role || "Content Creator"}</p>
+                    {!author && (
+                      <p className="text-sm text-gray-600">
+                        Expert with a passion for helping businesses improve their online visibility through effective content strategies.
+                      </p>
+                    )}
                     <Button asChild className="mt-4 bg-brand-teal hover:bg-brand-teal/90 text-white w-full">
-                      <Link href="/blog">View All Posts</Link>
+                      <Link href={author ? authorHref(author.slug) : "/blog"}>
+                        {author ? `View All Posts by ${author.name}` : "View All Posts"}
+                      </Link>
                     </Button>
                   </div>
                 </CardContent>
@@ -485,30 +364,14 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
                   <h3 className="font-bold text-lg mb-4">Categories</h3>
                   <Separator className="mb-4" />
                   <ul className="space-y-2">
-                    <li>
-                      <Link href="/blog?category=digital-marketing" className="flex items-center justify-between text-gray-700 hover:text-brand-teal transition-colors">
-                        <span>Digital Marketing</span>
-                        <span className="bg-gray-100 px-2 py-1 text-xs rounded-full">24</span>
-                      </Link>
-                    </li>
-                    <li>
-                      <Link href="/blog?category=seo" className="flex items-center justify-between text-gray-700 hover:text-brand-teal transition-colors">
-                        <span>SEO</span>
-                        <span className="bg-gray-100 px-2 py-1 text-xs rounded-full">18</span>
-                      </Link>
-                    </li>
-                    <li>
-                      <Link href="/blog?category=web-development" className="flex items-center justify-between text-gray-700 hover:text-brand-teal transition-colors">
-                        <span>Web Development</span>
-                        <span className="bg-gray-100 px-2 py-1 text-xs rounded-full">15</span>
-                      </Link>
-                    </li>
-                    <li>
-                      <Link href="/blog?category=ui-ux-design" className="flex items-center justify-between text-gray-700 hover:text-brand-teal transition-colors">
-                        <span>UI/UX Design</span>
-                        <span className="bg-gray-100 px-2 py-1 text-xs rounded-full">12</span>
-                      </Link>
-                    </li>
+                    {categories.map((category) => (
+                      <li key={category.slug}>
+                        <Link href={categoryHref(category.name)} className="flex items-center justify-between text-gray-700 hover:text-brand-teal transition-colors">
+                          <span>{category.name}</span>
+                          <span className="bg-gray-100 px-2 py-1 text-xs rounded-full">{category.count}</span>
+                        </Link>
+                      </li>
+                    ))}
                   </ul>
                 </CardContent>
               </Card>
@@ -520,19 +383,19 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
                     <h3 className="font-bold text-lg mb-4">Related Articles</h3>
                     <Separator className="mb-4" />
                     <div className="space-y-4">
-                      {relatedPosts.map((post, idx) => (
-                        <div key={idx} className="flex gap-3">
+                      {relatedPosts.map((post) => (
+                        <div key={post.id} className="flex gap-3">
                           <div className="relative h-16 w-16 rounded-md overflow-hidden flex-shrink-0">
-                            <Image
+                            <CoverImage
                               src={post.image}
+                              avif={post.image_avif}
+                              placeholder={post.image_placeholder}
                               alt={post.title}
-                              fill
-                              className="object-cover"
                             />
                           </div>
                           <div>
                             <h4 className="font-medium text-sm line-clamp-2">
-                              <Link href={`/blog/${post.id}`} className="hover:text-brand-teal transition-colors">
+                              <Link href={`/blog/${post.slug}`} className="hover:text-brand-teal transition-colors">
                                 {post.title}
                               </Link>
                             </h4>
@@ -544,6 +407,17 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
                   </CardContent>
                 </Card>
               )}
+
+              {/* Table of Contents, stays in view while the post scrolls */}
+              {showToc && (
+                <Card className="hidden lg:block sticky top-24 mt-8">
+                  <CardContent className="p-6 max-h-[calc(100vh-8rem)] overflow-y-auto">
+                    <h3 className="font-bold text-lg mb-4">Table of Contents</h3>
+                    <Separator className="mb-4" />
+                    <TableOfContents headings={headings} />
+                  </CardContent>
+                </Card>
+              )}
             </div>
           </div>
         </div>
@@ -557,23 +431,7 @@ export default function BlogPostPage({ params }: { params: { slug: string } }) {
             <p className="text-gray-600 mb-8">
               Subscribe to our newsletter to receive the latest insights and tips on digital marketing, SEO, and web development.
             </p>
-            <form onSubmit={handleSubscribe} className="flex flex-col sm:flex-row gap-3 max-w-lg mx-auto">
-              <input
-                type="email"
-                placeholder="Enter your email"
-                className="px-4 py-3 rounded-lg border border-gray-300 flex-grow focus:outline-none focus:ring-2 focus:ring-brand-teal/50 focus:border-brand-teal"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-              />
-              <Button 
-                type="submit"
-                className="bg-brand-teal hover:bg-brand-teal/90 text-white whitespace-nowrap"
-                disabled={isSubmitting}
-              >
-                {isSubmitting ? "Subscribing..." : "Subscribe"}
-              </Button>
-            </form>
+            <NewsletterForm />
           </div>
         </div>
       </section>
@@ -0,0 +1,130 @@
+import type { Metadata } from "next"
+import Image from "next/image"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ChevronRight } from "lucide-react"
+import AuthorLinks from "@/components/blog/author-links"
+import Pagination from "@/components/blog/pagination"
+import PostCard, { toListingPost } from "@/components/blog/post-card"
+import JsonLd from "@/components/seo/json-ld"
+import { getAuthor } from "@/lib/authors/queries"
+import { BLOG_PAGE_SIZE, type SearchParams, authorHref, parsePage } from "@/lib/posts/listing"
+import { listLivePostsPage } from "@/lib/posts/queries"
+import { SITE_NAME } from "@/lib/site"
+import { personJsonLd } from "@/lib/structured-data"
+
+type AuthorPageProps = {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<SearchParams>
+}
+
+const AVATAR_PLACEHOLDER = "https://placehold.co/160x160/120a32/fff"
+
+// The author and one page of their posts, null when either does not exist.
+// A profile without posts still has its first page.
+async function getAuthorPage({ params, searchParams }: AuthorPageProps) {
+  const [{ slug }, query] = await Promise.all([params, searchParams])
+  const author = await getAuthor(slug)
+  if (!author) {
+    return null
+  }
+
+  const page = parsePage(query)
+  const { posts, total } = await listLivePostsPage({ page, pageSize: BLOG_PAGE_SIZE, authorId: author.id })
+  const totalPages = Math.max(1, Math.ceil(total / BLOG_PAGE_SIZE))
+  if (page > totalPages) {
+    return null
+  }
+
+  return { author, posts, total, page, totalPages }
+}
+
+export async function generateMetadata(props: AuthorPageProps): Promise<Metadata> {
+  const result = await getAuthorPage(props)
+  if (!result) {
+    return {}
+  }
+
+  const { author, page } = result
+  const title = page > 1 ? `${author.name} - Page ${page}` : author.name
+  const description = author.bio || `Articles by ${author.name} on the ${SITE_NAME} blog.`
+  const url = authorHref(author.slug, page)
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: "profile",
+      url,
+      siteName: SITE_NAME,
+      title,
+      description,
+      images: author.avatar ? [{ url: author.avatar, alt: author.name }] : undefined,
+    },
+  }
+}
+
+export default async function AuthorPage(props: AuthorPageProps) {
+  const result = await getAuthorPage(props)
+  if (!result) {
+    notFound()
+  }
+
+  const { author, posts, total, page, totalPages } = result
+
+  return (
+    <div className="flex flex-col">
+      <JsonLd data={personJsonLd(author)} />
+      {/* Hero Section */}
+      <section className="py-16 bg-gray-50">
+        <div className="container-custom">
+          <div className="max-w-3xl mx-auto text-center">
+            <div className="flex items-center justify-center gap-2 text-sm mb-6">
+              <Link href="/" className="text-gray-600 hover:text-brand-teal transition-colors">Home</Link>
+              <ChevronRight className="h-4 w-4 text-gray-400" />
+              <Link href="/blog" className="text-gray-600 hover:text-brand-teal transition-colors">Blog</Link>
+              <ChevronRight className="h-4 w-4 text-gray-400" />
+              <span className="text-brand-teal">{author.name}</span>
+            </div>
+            <div className="relative h-32 w-32 rounded-full overflow-hidden mx-auto mb-6">
+              <Image
+                src={author.avatar || AVATAR_PLACEHOLDER}
+                alt={author.name}
+                fill
+                className="object-cover"
+              />
+            </div>
+            <h1 className="text-4xl md:text-5xl font-bold mb-2">{author.name}</h1>
+            {author.role && <p className="text-brand-teal font-medium mb-6">{author.role}</p>}
+            {author.bio && <p className="text-lg text-gray-600 mb-6 whitespace-pre-line">{author.bio}</p>}
+            <AuthorLinks links={author.social_links} className="justify-center mb-6" />
+            <p className="text-sm text-gray-500">
+              {total === 1 ? "1 article" : `${total} articles`}
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="container-custom">
+          {posts.length === 0 ? (
+            <p className="text-center py-12 text-gray-500">{author.name} has not published any articles yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {posts.map((post) => (
+                <PostCard key={post.id} post={toListingPost(post)} />
+              ))}
+            </div>
+          )}
+
+          <Pagination
+            page={page}
+            hasNextPage={page < totalPages}
+            totalPages={totalPages}
+            href={(target) => authorHref(author.slug, target)}
+          />
+        </div>
+      </section>
+    </div>
+  )
+}
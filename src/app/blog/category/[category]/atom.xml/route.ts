@@ -0,0 +1,22 @@
+import { feedResponse, getCategoryFeed } from "@/lib/feed"
+import { listCategories } from "@/lib/posts/queries"
+
+type RouteContext = { params: Promise<{ category: string }> }
+
+// Atom feed of one category, regenerated with the blog pages
+export const revalidate = 300
+
+export async function generateStaticParams() {
+  const categories = await listCategories()
+  return categories.map(category => ({ category: category.slug }))
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { category } = await params
+  const feed = await getCategoryFeed(category)
+  if (!feed) {
+    return new Response("Category not found", { status: 404 })
+  }
+
+  return feedResponse("atom", feed)
+}
@@ -0,0 +1,29 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import PostArchive from "@/components/blog/post-archive"
+import { archiveMetadata, loadArchive } from "@/lib/posts/archive"
+import { type SearchParams, parsePage } from "@/lib/posts/listing"
+
+type CategoryPageProps = {
+  params: Promise<{ category: string }>
+  searchParams: Promise<SearchParams>
+}
+
+async function getArchive({ params, searchParams }: CategoryPageProps) {
+  const [{ category }, query] = await Promise.all([params, searchParams])
+  return loadArchive("category", category, parsePage(query))
+}
+
+export async function generateMetadata(props: CategoryPageProps): Promise<Metadata> {
+  const archive = await getArchive(props)
+  return archive ? archiveMetadata(archive) : {}
+}
+
+export default async function CategoryPage(props: CategoryPageProps) {
+  const archive = await getArchive(props)
+  if (!archive) {
+    notFound()
+  }
+
+  return <PostArchive archive={archive} />
+}
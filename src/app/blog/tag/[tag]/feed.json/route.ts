@@ -0,0 +1,22 @@
+import { feedResponse, getTagFeed } from "@/lib/feed"
+import { listTags } from "@/lib/posts/queries"
+
+type RouteContext = { params: Promise<{ tag: string }> }
+
+// JSON Feed feed of one tag, regenerated with the blog pages
+export const revalidate = 300
+
+export async function generateStaticParams() {
+  const tags = await listTags()
+  return tags.map(tag => ({ tag: tag.slug }))
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { tag } = await params
+  const feed = await getTagFeed(tag)
+  if (!feed) {
+    return new Response("Tag not found", { status: 404 })
+  }
+
+  return feedResponse("json", feed)
+}
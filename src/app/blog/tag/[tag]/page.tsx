@@ -0,0 +1,29 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import PostArchive from "@/components/blog/post-archive"
+import { archiveMetadata, loadArchive } from "@/lib/posts/archive"
+import { type SearchParams, parsePage } from "@/lib/posts/listing"
+
+type TagPageProps = {
+  params: Promise<{ tag: string }>
+  searchParams: Promise<SearchParams>
+}
+
+async function getArchive({ params, searchParams }: TagPageProps) {
+  const [{ tag }, query] = await Promise.all([params, searchParams])
+  return loadArchive("tag", tag, parsePage(query))
+}
+
+export async function generateMetadata(props: TagPageProps): Promise<Metadata> {
+  const archive = await getArchive(props)
+  return archive ? archiveMetadata(archive) : {}
+}
+
+export default async function TagPage(props: TagPageProps) {
+  const archive = await getArchive(props)
+  if (!archive) {
+    notFound()
+  }
+
+  return <PostArchive archive={archive} />
+}
@@ -8,14 +8,7 @@ import { Card, CardContent } from "@/components/ui/card"
 import { toast } from "sonner"
 import { MapPin, Phone, Mail, Clock, CheckCircle } from "lucide-react"
 import emailjs from 'emailjs-com'
-
-// Contact details
-const contactDetails = {
-  address: "Hacks4u 11/13/4-C Tashkand Marg, Patrika Chauraha, Civil Lines, Prayagraj, Uttar Pradesh, 211011, India",
-  phone: "+91 955 999 3758", // Using phone from original website
-  email: "contact@hacks4u.in", // Email that will receive inquiries
-  hours: "Mon - Fri: 9:00 AM - 6:00 PM"
-}
+import { contactDetails } from "@/lib/contact"
 
 // EmailJS configuration
 const EMAILJS_SERVICE_ID = "service_wfe269e" // Replace with your EmailJS service ID
@@ -0,0 +1,8 @@
+import { feedResponse, getBlogFeed } from "@/lib/feed"
+
+// JSON Feed feed of the whole blog, regenerated with the blog pages
+export const revalidate = 300
+
+export async function GET() {
+  return feedResponse("json", await getBlogFeed())
+}
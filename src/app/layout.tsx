@@ -5,6 +5,10 @@ import { Toaster } from "@/components/ui/sonner";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import WhatsAppButton from "@/components/whatsApp/WhatsAppButton";
+import JsonLd from "@/components/seo/json-ld";
+import { feedAlternates } from "@/lib/feed";
+import { SITE_DESCRIPTION, SITE_NAME, SITE_URL } from "@/lib/site";
+import { organizationJsonLd } from "@/lib/structured-data";
 
 
 const inter = Inter({
@@ -19,8 +23,20 @@ const montserrat = Montserrat({
 });
 
 export const metadata: Metadata = {
-  title: "Hacks4U - IT Solutions & Digital Marketing",
-  description: "High-quality digital marketing services and IT solutions to help your business thrive online.",
+  // Relative canonical and Open Graph URLs are resolved against this
+  metadataBase: new URL(SITE_URL),
+  title: {
+    default: `${SITE_NAME} - IT Solutions & Digital Marketing`,
+    template: `%s | ${SITE_NAME}`,
+  },
+  description: SITE_DESCRIPTION,
+  // Pages that set their own alternates have to list the feeds again
+  alternates: { types: feedAlternates() },
+  openGraph: {
+    type: "website",
+    siteName: SITE_NAME,
+    locale: "en_US",
+  },
 };
 
 export default function RootLayout({
@@ -38,6 +54,7 @@ export default function RootLayout({
         </main>
         <Footer />
         <Toaster />
+        <JsonLd data={organizationJsonLd()} />
       </body>
     </html>
   );
@@ -0,0 +1,22 @@
+import { shareCardResponse } from "@/lib/og"
+import { getLivePost } from "@/lib/posts/queries"
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+// Regenerated with the blog pages, see revalidateBlog
+export const revalidate = 300
+
+// Share card of a post, referenced from its Open Graph metadata
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { slug } = await params
+  const post = await getLivePost(slug)
+  if (!post) {
+    return new Response("Post not found", { status: 404 })
+  }
+
+  return shareCardResponse({
+    label: post.categories[0] ?? "",
+    title: post.title,
+    details: [post.author, post.read_time].filter(Boolean),
+  })
+}
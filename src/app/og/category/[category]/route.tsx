@@ -0,0 +1,21 @@
+import { shareCardResponse } from "@/lib/og"
+import { findCategory } from "@/lib/posts/queries"
+
+type RouteContext = { params: Promise<{ category: string }> }
+
+export const revalidate = 300
+
+// Share card of a category archive
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { category: slug } = await params
+  const category = await findCategory(slug)
+  if (!category) {
+    return new Response("Category not found", { status: 404 })
+  }
+
+  return shareCardResponse({
+    label: "Category",
+    title: category.name,
+    details: [category.count === 1 ? "1 article" : `${category.count} articles`],
+  })
+}
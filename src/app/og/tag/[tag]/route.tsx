@@ -0,0 +1,21 @@
+import { shareCardResponse } from "@/lib/og"
+import { findTag } from "@/lib/posts/queries"
+
+type RouteContext = { params: Promise<{ tag: string }> }
+
+export const revalidate = 300
+
+// Share card of a tag archive
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { tag: slug } = await params
+  const tag = await findTag(slug)
+  if (!tag) {
+    return new Response("Tag not found", { status: 404 })
+  }
+
+  return shareCardResponse({
+    label: "Tag",
+    title: `#${tag.name}`,
+    details: [tag.count === 1 ? "1 article" : `${tag.count} articles`],
+  })
+}
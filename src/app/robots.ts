@@ -0,0 +1,14 @@
+import type { MetadataRoute } from "next"
+import { SITE_URL, absoluteUrl } from "@/lib/site"
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      disallow: ["/admin", "/api"],
+    },
+    sitemap: absoluteUrl("/sitemap.xml"),
+    host: SITE_URL,
+  }
+}
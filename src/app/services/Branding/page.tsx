@@ -4,6 +4,9 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { ChevronRight, PenTool, Star, Palette, Megaphone, Layers, Globe } from "lucide-react"
 import { FileSearch } from "lucide-react"
+import JsonLd from "@/components/seo/json-ld"
+import { getServicePage } from "@/lib/services"
+import { serviceJsonLd } from "@/lib/structured-data"
 
 // Branding features data
 const features = [
@@ -87,6 +90,7 @@ const brandingStats = [
 export default function BrandingPage() {
   return (
     <div className="flex flex-col">
+      <JsonLd data={serviceJsonLd(getServicePage("/services/Branding"))} />
       {/* Hero Section */}
       <section className="py-16 bg-gray-50">
         <div className="container-custom">
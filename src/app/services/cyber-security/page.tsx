@@ -3,6 +3,9 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { ChevronRight, ShieldCheck, FileSearch, Eye, Lock, BookOpen, BarChart } from "lucide-react"
+import JsonLd from "@/components/seo/json-ld"
+import { getServicePage } from "@/lib/services"
+import { serviceJsonLd } from "@/lib/structured-data"
 
 // Service features data
 const features = [
@@ -106,6 +109,7 @@ const securityStats = [
 export default function CyberSecurityPage() {
   return (
     <div className="flex flex-col">
+      <JsonLd data={serviceJsonLd(getServicePage("/services/cyber-security"))} />
       {/* Hero Section */}
       <section className="py-16 bg-gray-50">
         <div className="container-custom">
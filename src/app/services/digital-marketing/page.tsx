@@ -3,6 +3,9 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { CheckCircle2, ArrowRight, ChevronRight } from "lucide-react"
+import JsonLd from "@/components/seo/json-ld"
+import { getServicePage } from "@/lib/services"
+import { serviceJsonLd } from "@/lib/structured-data"
 
 // Service features data
 const features = [
@@ -80,6 +83,7 @@ const caseStudies = [
 export default function DigitalMarketingPage() {
   return (
     <div className="flex flex-col">
+      <JsonLd data={serviceJsonLd(getServicePage("/services/digital-marketing"))} />
       {/* Hero Section */}
       <section className="py-16 bg-gray-50">
         <div className="container-custom">
@@ -2,6 +2,9 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { ArrowRight, Code, Globe, Layout, LockKeyhole } from "lucide-react"
+import JsonLd from "@/components/seo/json-ld"
+import { SERVICE_PAGES } from "@/lib/services"
+import { serviceJsonLd } from "@/lib/structured-data"
 
 // Service data
 const services = [
@@ -66,6 +69,7 @@ const services = [
 export default function ServicesPage() {
   return (
     <div className="flex flex-col">
+      <JsonLd data={SERVICE_PAGES.map(serviceJsonLd)} />
       {/* Hero Section */}
       <section className="py-16 bg-gray-50">
         <div className="container-custom">
@@ -3,6 +3,9 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { ChevronRight, Users, Lightbulb, Palette, Smartphone, Layout, Zap } from "lucide-react"
+import JsonLd from "@/components/seo/json-ld"
+import { getServicePage } from "@/lib/services"
+import { serviceJsonLd } from "@/lib/structured-data"
 
 // Service features data
 const features = [
@@ -98,6 +101,7 @@ const designTools = [
 export default function UiUxDesignPage() {
   return (
     <div className="flex flex-col">
+      <JsonLd data={serviceJsonLd(getServicePage("/services/ui-ux-design"))} />
       {/* Hero Section */}
       <section className="py-16 bg-gray-50">
         <div className="container-custom">
@@ -3,6 +3,9 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { CheckCircle2, ArrowRight, ChevronRight, Code, Server, Smartphone, ShoppingBag, Database, Wrench } from "lucide-react"
+import JsonLd from "@/components/seo/json-ld"
+import { getServicePage } from "@/lib/services"
+import { serviceJsonLd } from "@/lib/structured-data"
 
 // Service features data
 const features = [
@@ -108,6 +111,7 @@ const projects = [
 export default function WebDevelopmentPage() {
   return (
     <div className="flex flex-col">
+      <JsonLd data={serviceJsonLd(getServicePage("/services/web-development"))} />
       {/* Hero Section */}
       <section className="py-16 bg-gray-50">
         <div className="container-custom">
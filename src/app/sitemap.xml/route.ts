@@ -0,0 +1,9 @@
+import { countSitemapPages, renderSitemap, renderSitemapIndex, xmlResponse } from "@/lib/sitemap"
+
+// New posts are picked up within five minutes, like the blog pages
+export const revalidate = 300
+
+export async function GET() {
+  const pages = await countSitemapPages()
+  return xmlResponse(pages > 1 ? renderSitemapIndex(pages) : await renderSitemap(0))
+}
@@ -0,0 +1,17 @@
+import { countSitemapPages, renderSitemap, xmlResponse } from "@/lib/sitemap"
+
+type RouteContext = { params: Promise<{ page: string }> }
+
+export const revalidate = 300
+
+// One file of the sitemap index, /sitemap/<n>.xml
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { page } = await params
+  const match = /^(\d+)\.xml$/.exec(page)
+  const index = match ? Number(match[1]) : -1
+  if (index < 0 || index >= (await countSitemapPages())) {
+    return new Response("Sitemap not found", { status: 404 })
+  }
+
+  return xmlResponse(await renderSitemap(index))
+}
@@ -0,0 +1,247 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "sonner"
+import { adminFetch } from "@/lib/admin-api"
+import type { AdminAuthorRow } from "@/lib/authors/types"
+import { slugify } from "@/lib/posts/slug"
+
+const emptyForm = { name: "", slug: "", role: "", email: "", bio: "", avatar: "", socialLinks: "" }
+
+function toForm(author: AdminAuthorRow) {
+  return {
+    name: author.name,
+    slug: author.slug,
+    role: author.role ?? "",
+    email: author.email ?? "",
+    bio: author.bio,
+    avatar: author.avatar ?? "",
+    socialLinks: author.social_links.join("\n"),
+  }
+}
+
+// Author profiles for /blog/author/<slug>. The dashboard owns the list since
+// the post forms pick from it too, onChange reloads it after a save.
+export default function AuthorsPanel({ authors, onChange }: { authors: AdminAuthorRow[]; onChange: () => Promise<void> }) {
+  const [form, setForm] = useState(emptyForm)
+  // The author being edited, null while the form adds a new one
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [loadingAction, setLoadingAction] = useState(false)
+
+  // Runs an author mutation with the shared loading state, toasts and refresh
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setLoadingAction(true)
+    try {
+      await action()
+      await onChange()
+      toast.success(successMessage)
+      return true
+    } catch (error) {
+      console.error("Error updating authors:", error)
+      toast.error(error instanceof Error ? error.message : "Something went wrong. Please try again.")
+      return false
+    } finally {
+      setLoadingAction(false)
+    }
+  }
+
+  const resetForm = () => {
+    setForm(emptyForm)
+    setEditingId(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const body = JSON.stringify({
+      name: form.name,
+      slug: form.slug || undefined,
+      role: form.role,
+      email: form.email,
+      bio: form.bio,
+      avatar: form.avatar,
+      social_links: form.socialLinks.split(/\s+/).filter(Boolean),
+    })
+    const saved = editingId
+      ? await runAction(() => adminFetch(`/api/admin/authors/${editingId}`, { method: "PATCH", body }), "Author updated")
+      : await runAction(() => adminFetch("/api/admin/authors", { method: "POST", body }), "Author added")
+    if (saved) {
+      resetForm()
+    }
+  }
+
+  const handleDelete = async (author: AdminAuthorRow) => {
+    if (!confirm(`Delete the profile of ${author.name}? Their posts keep the name but no longer link to a profile.`)) {
+      return
+    }
+    const deleted = await runAction(
+      () => adminFetch(`/api/admin/authors/${author.id}`, { method: "DELETE" }),
+      "Author deleted"
+    )
+    if (deleted && editingId === author.id) {
+      resetForm()
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Authors</CardTitle>
+          <CardDescription>
+            Public profiles posts are written by, each with a page listing their posts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {authors.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">No authors yet. Add the first one below.</p>
+          ) : (
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Author</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {authors.map((author) => (
+                    <tr key={author.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <p className="font-medium">{author.name}</p>
+                        <p className="text-xs text-gray-500">/blog/author/{author.slug}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">{author.role}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={loadingAction}
+                            onClick={() => {
+                              setEditingId(author.id)
+                              setForm(toForm(author))
+                            }}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            disabled={loadingAction}
+                            onClick={() => handleDelete(author)}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Author" : "Add Author"}</CardTitle>
+          <CardDescription>
+            {editingId
+              ? "Renaming an author also renames them on their posts."
+              : "Add a profile, then pick it as the author of posts."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="author-name">Name</Label>
+              <Input
+                id="author-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="author-slug">URL Slug</Label>
+              <Input
+                id="author-slug"
+                placeholder={slugify(form.name) || "generated-from-the-name"}
+                value={form.slug}
+                onChange={(e) => setForm({ ...form, slug: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="author-role">Role</Label>
+              <Input
+                id="author-role"
+                placeholder="Lead Developer"
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="author-avatar">Avatar URL</Label>
+              <Input
+                id="author-avatar"
+                placeholder="/hacks_v5_images/photo.jpeg"
+                value={form.avatar}
+                onChange={(e) => setForm({ ...form, avatar: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="author-email">Notification Email</Label>
+              <Input
+                id="author-email"
+                type="email"
+                placeholder="name@hacks4u.com"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+              <p className="text-sm text-gray-500">Private. New comments on their posts are sent here.</p>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="author-bio">Bio</Label>
+              <Textarea
+                id="author-bio"
+                value={form.bio}
+                onChange={(e) => setForm({ ...form, bio: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="author-social-links">Social Links</Label>
+              <Textarea
+                id="author-social-links"
+                placeholder={"https://www.linkedin.com/in/...\nhttps://github.com/..."}
+                value={form.socialLinks}
+                onChange={(e) => setForm({ ...form, socialLinks: e.target.value })}
+              />
+              <p className="text-sm text-gray-500">One profile URL per line.</p>
+            </div>
+            <div className="md:col-span-2 flex gap-2">
+              <Button
+                type="submit"
+                className="bg-brand-teal hover:bg-brand-teal/90"
+                disabled={loadingAction}
+              >
+                {loadingAction ? "Saving..." : editingId ? "Save Author" : "Add Author"}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "sonner"
+import { adminFetch } from "@/lib/admin-api"
+import { COMMENT_STATUSES, COMMENT_STATUS_LABELS, type CommentStatus } from "@/lib/comments/types"
+
+interface ModerationComment {
+  id: string
+  post_id: string
+  parent_id: string | null
+  name: string
+  email: string
+  body: string
+  status: CommentStatus
+  spam_reasons: string[]
+  ip: string | null
+  user_agent: string | null
+  created_at: string
+  post: { slug: string; title: string } | null
+  parent: { name: string } | null
+}
+
+// What each button moves a comment to, the current status has none
+const MODERATION_ACTIONS: { status: CommentStatus; label: string; message: string }[] = [
+  { status: "approved", label: "Approve", message: "Comment approved" },
+  { status: "rejected", label: "Reject", message: "Comment rejected" },
+  { status: "spam", label: "Mark as Spam", message: "Comment marked as spam" },
+  { status: "pending", label: "Back to Pending", message: "Comment moved back to pending" },
+]
+
+const emptyCounts: Record<CommentStatus, number> = { pending: 0, approved: 0, rejected: 0, spam: 0 }
+
+export default function CommentsPanel() {
+  const [comments, setComments] = useState<ModerationComment[]>([])
+  const [counts, setCounts] = useState(emptyCounts)
+  const [status, setStatus] = useState<CommentStatus>("pending")
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadingAction, setLoadingAction] = useState(false)
+
+  const fetchComments = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const result = await adminFetch<{ comments: ModerationComment[]; counts: Record<CommentStatus, number> }>(
+        `/api/admin/comments?status=${status}`
+      )
+      setComments(result.comments)
+      setCounts(result.counts)
+    } catch (error) {
+      console.error("Error fetching comments:", error)
+      toast.error("Failed to load comments")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchComments()
+  }, [fetchComments])
+
+  // Runs a comment mutation with the shared loading state, toasts and refresh
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setLoadingAction(true)
+    try {
+      await action()
+      await fetchComments()
+      toast.success(successMessage)
+    } catch (error) {
+      console.error("Error moderating comment:", error)
+      toast.error(error instanceof Error ? error.message : "Something went wrong. Please try again.")
+    } finally {
+      setLoadingAction(false)
+    }
+  }
+
+  const handleDelete = (comment: ModerationComment) => {
+    if (!confirm(`Delete the comment by ${comment.name}? Replies to it are deleted as well.`)) {
+      return
+    }
+    runAction(() => adminFetch(`/api/admin/comments/${comment.id}`, { method: "DELETE" }), "Comment deleted")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Comments</CardTitle>
+        <CardDescription>
+          New comments wait here until they are approved. Comments that look like spam go straight to Spam, with the reasons they were caught.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {COMMENT_STATUSES.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={status === value ? "default" : "outline"}
+              onClick={() => setStatus(value)}
+            >
+              {COMMENT_STATUS_LABELS[value]} ({counts[value]})
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={fetchComments} disabled={isLoading}>
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center py-8 text-gray-500">Loading comments...</p>
+        ) : comments.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">No {COMMENT_STATUS_LABELS[status].toLowerCase()} comments.</p>
+        ) : (
+          <ul className="space-y-4">
+            {comments.map((comment) => (
+              <li key={comment.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <div>
+                    <span className="font-medium">{comment.name}</span>{" "}
+                    <a href={`mailto:${comment.email}`} className="text-sm text-gray-500 hover:underline">
+                      {comment.email}
+                    </a>
+                  </div>
+                  <span className="text-xs text-gray-500">{new Date(comment.created_at).toLocaleString()}</span>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {comment.parent ? `Reply to ${comment.parent.name} on ` : "On "}
+                  {comment.post ? (
+                    <a
+                      href={`/blog/${comment.post.slug}#comments`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-brand-teal hover:underline"
+                    >
+                      {comment.post.title}
+                    </a>
+                  ) : (
+                    "a deleted post"
+                  )}
+                </p>
+                <p className="whitespace-pre-line break-words">{comment.body}</p>
+                {comment.spam_reasons.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {comment.spam_reasons.map((reason) => (
+                      <span key={reason} className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700">
+                        {reason}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap gap-2">
+                    {MODERATION_ACTIONS.filter((action) => action.status !== comment.status).map((action) => (
+                      <Button
+                        key={action.status}
+                        size="sm"
+                        variant="outline"
+                        disabled={loadingAction}
+                        className={action.status === "approved" ? "border-brand-teal text-brand-teal" : undefined}
+                        onClick={() =>
+                          runAction(
+                            () =>
+                              adminFetch(`/api/admin/comments/${comment.id}`, {
+                                method: "PATCH",
+                                body: JSON.stringify({ status: action.status }),
+                              }),
+                            action.message
+                          )
+                        }
+                      >
+                        {action.label}
+                      </Button>
+                    ))}
+                    <Button variant="destructive" size="sm" disabled={loadingAction} onClick={() => handleDelete(comment)}>
+                      Delete
+                    </Button>
+                  </div>
+                  {comment.ip && (
+                    <span className="text-xs text-gray-400" title={comment.user_agent ?? undefined}>
+                      {comment.ip}
+                    </span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { ImageUp, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { adminFetch } from "@/lib/admin-api"
+import { ACCEPTED_IMAGE_TYPES, COVER_HEIGHT, COVER_WIDTH, MAX_UPLOAD_BYTES, type UploadedCover } from "@/lib/media/types"
+
+export interface CoverImageValue {
+  image: string
+  // Set for uploads, null for an image given as a URL
+  assetId: string | null
+}
+
+interface CoverImageFieldProps {
+  id: string
+  value: CoverImageValue
+  onChange: (value: CoverImageValue) => void
+}
+
+// Drop or pick an image to upload it as the cover, the server crops it to
+// 16:9. A URL can still be typed in instead.
+export default function CoverImageField({ id, value, onChange }: CoverImageFieldProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const upload = async (file: File) => {
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      toast.error("Upload a JPEG, PNG, WebP, AVIF or GIF image")
+      return
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      toast.error(`Images must be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`)
+      return
+    }
+
+    setIsUploading(true)
+    try {
+      const body = new FormData()
+      body.append("file", file)
+      const { asset } = await adminFetch<{ asset: UploadedCover }>("/api/admin/media", { method: "POST", body })
+      onChange({ image: asset.url, assetId: asset.id })
+      toast.success(`Cover uploaded and cropped to ${asset.width}×${asset.height}`)
+    } catch (error) {
+      console.error("Error uploading cover image:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to upload image")
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLButtonElement>) => {
+    e.preventDefault()
+    setIsDragging(false)
+    const file = e.dataTransfer.files[0]
+    if (file && !isUploading) {
+      upload(file)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Cover Image</Label>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        disabled={isUploading}
+        className={`group relative block w-full aspect-video overflow-hidden rounded-md border-2 border-dashed transition-colors ${
+          isDragging ? "border-brand-teal bg-brand-teal/10" : "border-gray-300 hover:border-brand-teal"
+        }`}
+      >
+        {value.image && <img src={value.image} alt="" className="absolute inset-0 h-full w-full object-cover" />}
+        {/* Over the preview only while hovering, dragging or uploading */}
+        <span
+          className={`absolute inset-0 flex flex-col items-center justify-center gap-2 bg-white/80 text-sm text-gray-700 transition-opacity ${
+            value.image && !isDragging && !isUploading ? "opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100" : ""
+          }`}
+        >
+          {isUploading ? (
+            <>
+              <Loader2 className="h-6 w-6 animate-spin" />
+              Uploading and resizing...
+            </>
+          ) : (
+            <>
+              <ImageUp className="h-6 w-6" />
+              Drop an image here or click to choose one
+              <span className="text-xs text-gray-500">
+                Cropped to 16:9, up to {COVER_WIDTH}×{COVER_HEIGHT}
+              </span>
+            </>
+          )}
+        </span>
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(",")}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) {
+            upload(file)
+          }
+          // Picking the same file again should upload it again
+          e.target.value = ""
+        }}
+      />
+      <Input
+        id={id}
+        placeholder="Or paste an image URL"
+        value={value.image}
+        onChange={(e) => onChange({ image: e.target.value, assetId: null })}
+      />
+    </div>
+  )
+}
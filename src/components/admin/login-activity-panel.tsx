@@ -0,0 +1,151 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "sonner"
+import { adminFetch } from "@/lib/admin-api"
+
+interface LoginAttempt {
+  id: string
+  username: string
+  ip: string | null
+  user_agent: string | null
+  outcome: string
+  created_at: string
+}
+
+const OUTCOME_FILTERS = [
+  { value: "", label: "All" },
+  { value: "success", label: "Successful" },
+  { value: "invalid_credentials", label: "Failed" },
+  { value: "mfa_failed", label: "Wrong 2FA code" },
+  { value: "locked", label: "Locked out" },
+]
+
+const OUTCOME_STYLES: Record<string, string> = {
+  success: "bg-green-100 text-green-700",
+  invalid_credentials: "bg-amber-100 text-amber-700",
+  mfa_required: "bg-blue-100 text-blue-700",
+  mfa_failed: "bg-amber-100 text-amber-700",
+  locked: "bg-red-100 text-red-700",
+}
+
+export default function LoginActivityPanel() {
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([])
+  const [outcome, setOutcome] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchAttempts = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const query = new URLSearchParams({ limit: "200" })
+      if (outcome) {
+        query.set("outcome", outcome)
+      }
+      const result = await adminFetch<{ attempts: LoginAttempt[] }>(`/api/admin/login-attempts?${query}`)
+      setAttempts(result.attempts)
+    } catch (error) {
+      console.error("Error fetching login activity:", error)
+      toast.error("Failed to load login activity")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [outcome])
+
+  useEffect(() => {
+    fetchAttempts()
+  }, [fetchAttempts])
+
+  // IPs with the most failed or blocked attempts in the loaded rows
+  const suspiciousIps = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const attempt of attempts) {
+      if ((attempt.outcome === "invalid_credentials" || attempt.outcome === "mfa_failed" || attempt.outcome === "locked") && attempt.ip) {
+        counts.set(attempt.ip, (counts.get(attempt.ip) || 0) + 1)
+      }
+    }
+    return Array.from(counts.entries())
+      .filter(([, count]) => count >= 5)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+  }, [attempts])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Login Activity</CardTitle>
+        <CardDescription>
+          Every attempt to sign in to the dashboard. Repeated failures lock out the username or IP for a growing amount of time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {OUTCOME_FILTERS.map((filter) => (
+            <Button
+              key={filter.value}
+              size="sm"
+              variant={outcome === filter.value ? "default" : "outline"}
+              onClick={() => setOutcome(filter.value)}
+            >
+              {filter.label}
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={fetchAttempts} disabled={isLoading}>
+            Refresh
+          </Button>
+        </div>
+
+        {suspiciousIps.length > 0 && (
+          <div className="border border-red-200 bg-red-50 rounded-lg p-4 text-sm">
+            <p className="font-medium text-red-700 mb-2">IPs with repeated failed attempts</p>
+            <ul className="space-y-1 text-red-700">
+              {suspiciousIps.map(([ip, count]) => (
+                <li key={ip}>
+                  {ip}: {count} failed or blocked attempts
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-center py-8 text-gray-500">Loading login activity...</p>
+        ) : attempts.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">No login attempts recorded yet.</p>
+        ) : (
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Username</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IP</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outcome</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User Agent</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                {attempts.map((attempt) => (
+                  <tr key={attempt.id}>
+                    <td className="px-6 py-3 whitespace-nowrap">{new Date(attempt.created_at).toLocaleString()}</td>
+                    <td className="px-6 py-3 whitespace-nowrap">{attempt.username}</td>
+                    <td className="px-6 py-3 whitespace-nowrap">{attempt.ip || "Unknown"}</td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <span className={`px-2 py-1 rounded-full text-xs ${OUTCOME_STYLES[attempt.outcome] || "bg-gray-100 text-gray-700"}`}>
+                        {attempt.outcome.replace(/_/g, " ")}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 max-w-xs truncate text-gray-500" title={attempt.user_agent || ""}>
+                      {attempt.user_agent || "Unknown"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { useDeferredValue, useMemo } from "react"
+import { Textarea } from "@/components/ui/textarea"
+import { CALLOUT_TYPES, MDX_COMPONENTS, findUnknownComponents } from "@/lib/content/markdown"
+import { type ContentFormat, renderPostContent } from "@/lib/content/render"
+import { readingStats } from "@/lib/posts/read-time"
+
+interface MarkdownEditorProps {
+  id: string
+  name?: string
+  value: string
+  format: ContentFormat
+  onChange: (value: string) => void
+  required?: boolean
+}
+
+// Source on the left, the post as it will look on /blog/[slug] on the right
+export default function MarkdownEditor({ id, name, value, format, onChange, required }: MarkdownEditorProps) {
+  // Rendering on every keystroke would make typing lag on long posts
+  const deferredValue = useDeferredValue(value)
+  const { html, removed } = useMemo(() => renderPostContent(deferredValue, format), [deferredValue, format])
+  const unknownComponents = format === "markdown" ? findUnknownComponents(deferredValue) : []
+  // The same count the server stores as the read time on save
+  const { words, readTime } = useMemo(() => readingStats(html), [html])
+
+  return (
+    <div className="space-y-2">
+      <div className="border rounded-md p-2 bg-gray-50 text-sm text-gray-500">
+        {format === "markdown" ? (
+          <p>
+            Write in Markdown. Also available: <code>{`<Callout type="${CALLOUT_TYPES.join("|")}">...</Callout>`}</code> and <code>{'<YouTube id="VIDEO_ID" />'}</code>.
+          </p>
+        ) : (
+          <p>This post was written in HTML before Markdown support and is still saved as HTML.</p>
+        )}
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Textarea
+          id={id}
+          name={name}
+          placeholder={format === "markdown" ? "## A heading\n\nWrite the post in **Markdown**..." : "<p>Post content</p>"}
+          className="min-h-[400px] font-mono text-sm"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          required={required}
+        />
+        <div className="min-h-[400px] max-h-[600px] overflow-y-auto border rounded-md p-4 bg-white">
+          {value.trim() ? (
+            // biome-ignore lint/security/noDangerouslySetInnerHtml: renderPostContent runs the allow-list sanitizer
+            <div className="post-content" dangerouslySetInnerHTML={{ __html: html }} />
+          ) : (
+            <p className="text-sm text-gray-400">The preview shows up here as you type.</p>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        {words.toLocaleString()} {words === 1 ? "word" : "words"} • {readTime}
+      </p>
+      {removed.length > 0 && (
+        <p className="text-sm text-amber-700">
+          Not allowed and removed when the post is saved: {removed.join(", ")}.
+        </p>
+      )}
+      {unknownComponents.length > 0 && (
+        <p className="text-sm text-red-600">
+          Unknown component {unknownComponents.map(name => `<${name}>`).join(", ")}. Only {MDX_COMPONENTS.map(name => `<${name}>`).join(", ")} can be used.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { adminFetch, type PostSaveResult, warnRemovedContent } from "@/lib/admin-api"
+import { diffLines, hasChanges } from "@/lib/diff"
+import type { PostRevisionRow, PostSnapshot, RevisionAction } from "@/lib/posts/types"
+
+interface RevisionHistoryProps {
+  postId: string
+  canRestore: boolean
+  onRestored: () => void
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: "Created",
+  edit: "Edited",
+  restore: "Restored",
+  baseline: "Before history",
+  import: "Imported",
+}
+
+// Everything but the content, which gets the line by line view
+const FIELD_LABELS: [keyof PostSnapshot, string][] = [
+  ["title", "Title"],
+  ["excerpt", "Excerpt"],
+  ["content_format", "Format"],
+  ["author", "Author"],
+  ["categories", "Categories"],
+  ["tags", "Tags"],
+  ["image", "Image"],
+  ["featured", "Featured"],
+  ["status", "Status"],
+  ["publish_at", "Publish date"],
+]
+
+function formatField(value: PostSnapshot[keyof PostSnapshot]) {
+  if (Array.isArray(value)) {
+    return value.join(", ")
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No"
+  }
+  return value ?? ""
+}
+
+const CELL_STYLES = {
+  same: "",
+  removed: "bg-red-50 text-red-800",
+  added: "bg-green-50 text-green-800",
+}
+
+export default function RevisionHistory({ postId, canRestore, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<PostRevisionRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  // The two revisions being compared, "from" is the older side of the diff
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+
+  const fetchRevisions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const result = await adminFetch<{ revisions: PostRevisionRow[] }>(`/api/admin/posts/${postId}/revisions`)
+      setRevisions(result.revisions)
+      setToId(result.revisions[0]?.id ?? null)
+      setFromId(result.revisions[1]?.id ?? result.revisions[0]?.id ?? null)
+    } catch (error) {
+      console.error("Error fetching revisions:", error)
+      toast.error("Failed to load revision history")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [postId])
+
+  useEffect(() => {
+    fetchRevisions()
+  }, [fetchRevisions])
+
+  const from = revisions.find(revision => revision.id === fromId)
+  const to = revisions.find(revision => revision.id === toId)
+
+  const contentDiff = useMemo(
+    () => (from && to ? diffLines(from.snapshot.content, to.snapshot.content) : []),
+    [from, to]
+  )
+  const changedFields = from && to
+    ? FIELD_LABELS.filter(([field]) => formatField(from.snapshot[field]) !== formatField(to.snapshot[field]))
+    : []
+
+  const handleRestore = async (revision: PostRevisionRow) => {
+    if (!confirm(`Restore the version from ${new Date(revision.created_at).toLocaleString()}? The current version stays in the history.`)) {
+      return
+    }
+
+    setRestoringId(revision.id)
+    try {
+      const result = await adminFetch<PostSaveResult>(`/api/admin/posts/${postId}/revisions/${revision.id}/restore`, { method: "POST" })
+      toast.success("Revision restored")
+      warnRemovedContent(result)
+      await fetchRevisions()
+      onRestored()
+    } catch (error) {
+      console.error("Error restoring revision:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to restore revision")
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 py-4">Loading history...</p>
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500 py-4">No revisions yet, one is saved every time the post changes.</p>
+  }
+
+  return (
+    <div className="space-y-4 mt-4 border-t pt-4">
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Saved</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {revisions.map((revision, index) => (
+              <tr key={revision.id}>
+                <td className="px-4 py-2">
+                  <input
+                    type="radio"
+                    name={`revision-from-${postId}`}
+                    aria-label="Compare from this revision"
+                    checked={fromId === revision.id}
+                    onChange={() => setFromId(revision.id)}
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="radio"
+                    name={`revision-to-${postId}`}
+                    aria-label="Compare to this revision"
+                    checked={toId === revision.id}
+                    onChange={() => setToId(revision.id)}
+                  />
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">{new Date(revision.created_at).toLocaleString()}</td>
+                <td className="px-4 py-2">{revision.created_by_name || "Unknown"}</td>
+                <td className="px-4 py-2">
+                  {ACTION_LABELS[revision.action] ?? revision.action}
+                  {index === 0 && <span className="ml-2 text-xs text-gray-500">(current)</span>}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {canRestore && index > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={restoringId !== null}
+                      onClick={() => handleRestore(revision)}
+                    >
+                      {restoringId === revision.id ? "Restoring..." : "Restore"}
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {from && to && (
+        <div className="space-y-4">
+          {changedFields.length > 0 && (
+            <table className="min-w-full divide-y divide-gray-200 text-sm border">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {changedFields.map(([field, label]) => (
+                  <tr key={field}>
+                    <td className="px-4 py-2 font-medium">{label}</td>
+                    <td className={`px-4 py-2 break-all ${CELL_STYLES.removed}`}>{formatField(from.snapshot[field])}</td>
+                    <td className={`px-4 py-2 break-all ${CELL_STYLES.added}`}>{formatField(to.snapshot[field])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {hasChanges(contentDiff) ? (
+            <div className="border rounded overflow-x-auto max-h-[500px] overflow-y-auto">
+              <table className="w-full table-fixed font-mono text-xs">
+                <tbody>
+                  {contentDiff.map((row, index) => (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: rows have no identity besides their position
+                    <tr key={index}>
+                      <td className="w-10 px-2 text-right text-gray-400 select-none align-top">{row.left?.number}</td>
+                      <td className={`px-2 whitespace-pre-wrap break-all align-top ${row.left ? CELL_STYLES[row.left.type] : "bg-gray-50"}`}>
+                        {row.left?.text}
+                      </td>
+                      <td className="w-10 px-2 text-right text-gray-400 select-none align-top border-l">{row.right?.number}</td>
+                      <td className={`px-2 whitespace-pre-wrap break-all align-top ${row.right ? CELL_STYLES[row.right.type] : "bg-gray-50"}`}>
+                        {row.right?.text}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">The content is the same in both revisions.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
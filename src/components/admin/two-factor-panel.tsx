@@ -0,0 +1,218 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "sonner"
+import { adminFetch } from "@/lib/admin-api"
+
+interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+interface Enrollment {
+  secret: string
+  qrCode: string
+}
+
+export default function TwoFactorPanel() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [code, setCode] = useState("")
+  const [loadingAction, setLoadingAction] = useState(false)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const result = await adminFetch<TwoFactorStatus>("/api/admin/2fa")
+      setStatus({ enabled: result.enabled, recoveryCodesRemaining: result.recoveryCodesRemaining })
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error)
+      toast.error("Failed to load two-factor settings")
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  // Runs one of the 2FA requests with the shared loading state and error toast
+  const runAction = async <T,>(action: () => Promise<T>) => {
+    setLoadingAction(true)
+    try {
+      return await action()
+    } catch (error) {
+      console.error("Error updating two-factor settings:", error)
+      toast.error(error instanceof Error ? error.message : "Something went wrong. Please try again.")
+      return null
+    } finally {
+      setLoadingAction(false)
+    }
+  }
+
+  const handleStartSetup = async () => {
+    const result = await runAction(() =>
+      adminFetch<Enrollment>("/api/admin/2fa/setup", { method: "POST" })
+    )
+    if (result) {
+      setEnrollment({ secret: result.secret, qrCode: result.qrCode })
+      setRecoveryCodes([])
+      setCode("")
+    }
+  }
+
+  const handleEnable = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const result = await runAction(() =>
+      adminFetch<{ recoveryCodes: string[] }>("/api/admin/2fa/enable", {
+        method: "POST",
+        body: JSON.stringify({ code }),
+      })
+    )
+    if (result) {
+      setEnrollment(null)
+      setRecoveryCodes(result.recoveryCodes)
+      setCode("")
+      toast.success("Two-factor authentication is now on")
+      await fetchStatus()
+    }
+  }
+
+  const handleRegenerateCodes = async () => {
+    const result = await runAction(() =>
+      adminFetch<{ recoveryCodes: string[] }>("/api/admin/2fa/recovery-codes", {
+        method: "POST",
+        body: JSON.stringify({ code }),
+      })
+    )
+    if (result) {
+      setRecoveryCodes(result.recoveryCodes)
+      setCode("")
+      toast.success("New recovery codes generated")
+      await fetchStatus()
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!confirm("Turn off two-factor authentication? Your password alone will be enough to sign in.")) {
+      return
+    }
+    const result = await runAction(() =>
+      adminFetch("/api/admin/2fa", { method: "DELETE", body: JSON.stringify({ code }) })
+    )
+    if (result) {
+      setRecoveryCodes([])
+      setCode("")
+      toast.success("Two-factor authentication is now off")
+      await fetchStatus()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app (Google Authenticator, 1Password, Authy...) in addition to your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!status ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : (
+          <p className="text-sm">
+            Status:{" "}
+            {status.enabled ? (
+              <span className="text-green-600 font-medium">
+                On ({status.recoveryCodesRemaining} recovery codes left)
+              </span>
+            ) : (
+              <span className="text-gray-500 font-medium">Off</span>
+            )}
+          </p>
+        )}
+
+        {recoveryCodes.length > 0 && (
+          <div className="border border-amber-200 bg-amber-50 rounded-lg p-4">
+            <p className="font-medium mb-2">Save your recovery codes</p>
+            <p className="text-sm text-gray-600 mb-4">
+              Each code can be used once to sign in if you lose your authenticator. They will not be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <Button
+            className="bg-brand-teal hover:bg-brand-teal/90"
+            onClick={handleStartSetup}
+            disabled={loadingAction}
+          >
+            Set Up Two-Factor Authentication
+          </Button>
+        )}
+
+        {enrollment && (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan the QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={enrollment.qrCode} alt="Two-factor QR code" className="h-[220px] w-[220px] border rounded-md" />
+            <p className="text-xs text-gray-500">
+              Can't scan it? Enter this key manually: <span className="font-mono">{enrollment.secret}</span>
+            </p>
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="enroll-code">Verification Code</Label>
+              <Input
+                id="enroll-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" className="bg-brand-teal hover:bg-brand-teal/90" disabled={loadingAction}>
+                Verify and Turn On
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-4">
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="manage-code">Current code or recovery code</Label>
+              <Input
+                id="manage-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRegenerateCodes} disabled={loadingAction || !code}>
+                New Recovery Codes
+              </Button>
+              <Button variant="destructive" onClick={handleDisable} disabled={loadingAction || !code}>
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
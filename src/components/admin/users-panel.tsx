@@ -0,0 +1,275 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "sonner"
+import { adminFetch } from "@/lib/admin-api"
+import { type AdminUser, ROLES, ROLE_LABELS, type Role } from "@/lib/auth/roles"
+
+interface UserRow {
+  id: string
+  username: string
+  display_name: string | null
+  role: Role
+  disabled: boolean
+  totp_enabled: boolean
+  created_at: string
+}
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+
+const emptyForm = { username: "", displayName: "", password: "", role: "author" as Role }
+
+export default function UsersPanel({ currentUser }: { currentUser: AdminUser }) {
+  const [users, setUsers] = useState<UserRow[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [loadingAction, setLoadingAction] = useState(false)
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const result = await adminFetch<{ users: UserRow[] }>("/api/admin/users")
+      setUsers(result.users)
+    } catch (error) {
+      console.error("Error fetching users:", error)
+      toast.error("Failed to load users")
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchUsers()
+  }, [fetchUsers])
+
+  // Runs a user mutation with the shared loading state, toasts and refresh
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setLoadingAction(true)
+    try {
+      await action()
+      await fetchUsers()
+      toast.success(successMessage)
+      return true
+    } catch (error) {
+      console.error("Error updating users:", error)
+      toast.error(error instanceof Error ? error.message : "Something went wrong. Please try again.")
+      return false
+    } finally {
+      setLoadingAction(false)
+    }
+  }
+
+  const handleCreateUser = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const created = await runAction(
+      () => adminFetch("/api/admin/users", { method: "POST", body: JSON.stringify(form) }),
+      "User created successfully"
+    )
+    if (created) {
+      setForm(emptyForm)
+    }
+  }
+
+  const updateUser = (id: string, changes: Record<string, unknown>, successMessage: string) =>
+    runAction(
+      () => adminFetch(`/api/admin/users/${id}`, { method: "PATCH", body: JSON.stringify(changes) }),
+      successMessage
+    )
+
+  const handleResetPassword = (user: UserRow) => {
+    const password = prompt(`New password for ${user.username} (at least 12 characters)`)
+    if (password) {
+      updateUser(user.id, { password }, "Password updated")
+    }
+  }
+
+  const handleResetTwoFactor = (user: UserRow) => {
+    if (confirm(`Turn off two-factor authentication for ${user.username}? They will be able to sign in with only their password.`)) {
+      updateUser(user.id, { resetTwoFactor: true }, "Two-factor authentication reset")
+    }
+  }
+
+  const handleDeleteUser = (user: UserRow) => {
+    if (!confirm(`Are you sure you want to delete ${user.username}?`)) {
+      return
+    }
+    runAction(() => adminFetch(`/api/admin/users/${user.id}`, { method: "DELETE" }), "User deleted")
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Team Members</CardTitle>
+          <CardDescription>
+            Authors can write and edit their own posts, editors can publish and delete any post, admins can also manage subscribers and users.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">2FA</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map((user) => {
+                  const isSelf = user.id === currentUser.id
+                  return (
+                    <tr key={user.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <p className="font-medium">{user.display_name || user.username}</p>
+                        <p className="text-xs text-gray-500">{user.username}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <select
+                          className={selectClassName}
+                          value={user.role}
+                          disabled={loadingAction || isSelf}
+                          onChange={(e) => updateUser(user.id, { role: e.target.value }, "Role updated")}
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {user.disabled ? (
+                          <span className="text-red-500">Disabled</span>
+                        ) : (
+                          <span className="text-green-600">Active</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {user.totp_enabled ? (
+                          <span className="text-green-600">On</span>
+                        ) : (
+                          <span className="text-gray-500">Off</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={loadingAction}
+                            onClick={() => handleResetPassword(user)}
+                          >
+                            Reset Password
+                          </Button>
+                          {!isSelf && user.totp_enabled && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={loadingAction}
+                              onClick={() => handleResetTwoFactor(user)}
+                            >
+                              Reset 2FA
+                            </Button>
+                          )}
+                          {!isSelf && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={loadingAction}
+                                onClick={() =>
+                                  updateUser(
+                                    user.id,
+                                    { disabled: !user.disabled },
+                                    user.disabled ? "User enabled" : "User disabled"
+                                  )
+                                }
+                              >
+                                {user.disabled ? "Enable" : "Disable"}
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                disabled={loadingAction}
+                                onClick={() => handleDeleteUser(user)}
+                              >
+                                Delete
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add User</CardTitle>
+          <CardDescription>Create a login for a new team member.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreateUser} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-username">Username</Label>
+              <Input
+                id="new-username"
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-display-name">Display Name</Label>
+              <Input
+                id="new-display-name"
+                value={form.displayName}
+                onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                minLength={12}
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-role">Role</Label>
+              <select
+                id="new-role"
+                className={selectClassName}
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value as Role })}
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <Button
+                type="submit"
+                className="bg-brand-teal hover:bg-brand-teal/90"
+                disabled={loadingAction}
+              >
+                {loadingAction ? "Saving..." : "Add User"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import { Facebook, Github, Globe, Instagram, Linkedin, type LucideIcon, Twitter, Youtube } from "lucide-react"
+import { type SocialSite, socialSite } from "@/lib/authors/social"
+
+const SOCIAL_ICONS: Record<SocialSite, LucideIcon> = {
+  LinkedIn: Linkedin,
+  Twitter,
+  GitHub: Github,
+  Facebook,
+  Instagram,
+  YouTube: Youtube,
+  Website: Globe,
+}
+
+// The social profiles of an author as icon links
+export default function AuthorLinks({ links, className = "" }: { links: string[]; className?: string }) {
+  if (links.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {links.map((url) => {
+        const site = socialSite(url)
+        const Icon = SOCIAL_ICONS[site]
+        return (
+          <a
+            key={url}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer me"
+            aria-label={site}
+            title={site}
+            className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 transition-colors"
+          >
+            <Icon className="h-4 w-4 text-gray-700" />
+          </a>
+        )
+      })}
+    </div>
+  )
+}
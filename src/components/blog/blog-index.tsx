@@ -0,0 +1,108 @@
+import type { Metadata } from "next"
+import BlogListing, { type BlogListingProps } from "@/components/blog/blog-listing"
+import NewsletterForm from "@/components/blog/newsletter-form"
+import { toListingPost } from "@/components/blog/post-card"
+import { feedAlternates } from "@/lib/feed"
+import { BLOG_PAGE_SIZE, type BlogView, blogHref, categoryHref } from "@/lib/posts/listing"
+import { countLivePosts, listCategories, listLivePostsPage, type PostCategory } from "@/lib/posts/queries"
+import { searchPosts } from "@/lib/posts/search"
+
+// The blog listing as /blog and the rewritten /blog?... views show it
+
+const description = "Industry insights, expert tips, and the latest trends in digital marketing, web development, and technology."
+
+// More than a blog ever marks as featured, they all show on the first page
+const FEATURED_LIMIT = 50
+
+// The view with its category resolved, an unknown one shows every post
+async function resolveView(requested: BlogView) {
+  const categories = await listCategories()
+  const category = categories.find(item => item.slug === requested.category) ?? null
+  return { view: { ...requested, category: category?.slug ?? null }, category, categories }
+}
+
+function viewTitle(view: BlogView, category: PostCategory | null) {
+  const title = view.q ? `Search results for "${view.q}"` : category ? `${category.name} Articles` : "Blog"
+  return view.page > 1 ? `${title} - Page ${view.page}` : title
+}
+
+export async function blogIndexMetadata(requested: BlogView): Promise<Metadata> {
+  const { view, category } = await resolveView(requested)
+  const title = viewTitle(view, category)
+  // A category on its own is the same list as its archive page
+  const url = category && !view.q ? categoryHref(category.name, view.page) : blogHref({ ...view, q: "" })
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url, types: feedAlternates() },
+    // Search results are endless and thin, keep them out of the index
+    robots: view.q ? { index: false, follow: true } : undefined,
+    openGraph: {
+      type: "website",
+      url,
+      title,
+      description,
+    },
+  }
+}
+
+export default async function BlogIndex({ view: requested }: { view: BlogView }) {
+  const { view, category, categories } = await resolveView(requested)
+  const offset = (view.page - 1) * BLOG_PAGE_SIZE
+  const postCount = await countLivePosts()
+
+  let listing: Omit<BlogListingProps, "view" | "categories" | "postCount">
+  if (view.q) {
+    // One result more than a page shows whether there is a next page
+    const results = await searchPosts(view.q, {
+      limit: BLOG_PAGE_SIZE + 1,
+      offset,
+      categories: category?.names
+    })
+    listing = {
+      featuredPosts: [],
+      posts: [],
+      searchResults: results.slice(0, BLOG_PAGE_SIZE),
+      pagination: { page: view.page, hasNextPage: results.length > BLOG_PAGE_SIZE }
+    }
+  } else {
+    const [featured, regular] = await Promise.all([
+      view.page === 1
+        ? listLivePostsPage({ page: 1, pageSize: FEATURED_LIMIT, categories: category?.names, featured: true })
+        : { posts: [], total: 0 },
+      listLivePostsPage({ page: view.page, pageSize: BLOG_PAGE_SIZE, categories: category?.names, featured: false })
+    ])
+    const totalPages = Math.max(1, Math.ceil(regular.total / BLOG_PAGE_SIZE))
+    listing = {
+      featuredPosts: featured.posts.map(toListingPost),
+      posts: regular.posts.map(toListingPost),
+      searchResults: null,
+      pagination: { page: view.page, hasNextPage: view.page < totalPages, totalPages }
+    }
+  }
+
+  return (
+    <div className="flex flex-col">
+      <BlogListing view={view} categories={categories} postCount={postCount} {...listing} />
+
+      {/* Newsletter Section */}
+      <section className="py-16">
+        <div className="container-custom">
+          <div className="bg-brand-dark text-white rounded-xl p-8 md:p-12">
+            <div className="max-w-3xl mx-auto text-center">
+              <h2 className="text-2xl md:text-3xl font-bold mb-4">Subscribe to Our Newsletter</h2>
+              <p className="text-gray-300 mb-8">
+                Stay updated with our latest articles, industry insights, and expert tips delivered directly to your inbox.
+              </p>
+              <NewsletterForm inputClassName="px-4 py-3 rounded-lg text-gray-900 flex-grow focus:outline-none focus:ring-2 focus:ring-brand-teal/50" />
+              <p className="text-gray-400 text-sm mt-4">
+                We respect your privacy. Unsubscribe at any time.
+              </p>
+            </div>
+          </div>
+        </div>
+      </section>
+    </div>
+  )
+}
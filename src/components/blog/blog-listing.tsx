@@ -0,0 +1,325 @@
+"use client"
+
+import { useEffect, useRef, useState, useTransition } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import CoverImage from "@/components/blog/cover-image"
+import Pagination, { type PaginationState } from "@/components/blog/pagination"
+import PostCard, { CategoryLinks, EngagementCounts } from "@/components/blog/post-card"
+import {
+  SearchIcon,
+  ChevronRight,
+  Calendar,
+  User,
+  Clock
+} from "lucide-react"
+import { formatPostDate } from "@/lib/posts/format"
+import { totalReactions } from "@/lib/posts/reactions"
+import { type BlogView, blogHref } from "@/lib/posts/listing"
+import type { SearchResult } from "@/lib/posts/search"
+
+// How long typing has to pause before the search runs
+const SEARCH_DELAY_MS = 250
+
+// A post as the listing shows it, dates are formatted on the server so the
+// markup matches between the server render and hydration
+export interface BlogListingPost {
+  id: string
+  slug: string
+  title: string
+  excerpt: string
+  image: string
+  imageAvif: string | null
+  imagePlaceholder: string | null
+  author: string
+  date: string
+  readTime: string
+  categories: string[]
+  featured?: boolean
+  views: number
+  // All reactions together
+  reactions: number
+}
+
+// Text with <mark>…</mark> around the matches, as the search API returns it.
+// Rendered as text, the rest of the string is never parsed as HTML.
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g)
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          // biome-ignore lint/suspicious/noArrayIndexKey: the parts never move
+          <mark key={index} className="bg-brand-teal/20 text-inherit rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  )
+}
+
+export interface BlogListingCategory {
+  name: string
+  slug: string
+  count: number
+}
+
+export interface BlogListingProps {
+  view: BlogView
+  categories: BlogListingCategory[]
+  // Live posts in every category, for the All chip
+  postCount: number
+  featuredPosts: BlogListingPost[]
+  posts: BlogListingPost[]
+  // null unless the view has a search
+  searchResults: SearchResult[] | null
+  pagination: PaginationState
+}
+
+// Everything the listing shows comes from the URL, the server loads it for
+// the view in the query string. Changing the category, search or page
+// navigates, so back, forward and shared links all restore the same view.
+export default function BlogListing({
+  view,
+  categories,
+  postCount,
+  featuredPosts,
+  posts,
+  searchResults,
+  pagination
+}: BlogListingProps) {
+  const router = useRouter()
+  const [isNavigating, startNavigation] = useTransition()
+  const [searchTerm, setSearchTerm] = useState(view.q)
+  // The search the URL has or is about to have, so typing is not undone
+  // while the navigation for it is still on its way
+  const sentQuery = useRef(view.q)
+
+  // Back and forward change the search without typing, show it in the box
+  useEffect(() => {
+    if (view.q !== sentQuery.current) {
+      sentQuery.current = view.q
+      setSearchTerm(view.q)
+    }
+  }, [view.q])
+
+  // Put the search in the URL once typing pauses. The first search adds a
+  // history entry, refining it replaces that entry rather than adding one
+  // per word.
+  useEffect(() => {
+    const query = searchTerm.trim()
+    if (query === sentQuery.current) {
+      return
+    }
+
+    const timer = setTimeout(() => {
+      const href = blogHref({ ...view, q: query, page: 1 })
+      const replace = Boolean(sentQuery.current)
+      sentQuery.current = query
+      startNavigation(() => {
+        if (replace) {
+          router.replace(href, { scroll: false })
+        } else {
+          router.push(href, { scroll: false })
+        }
+      })
+    }, SEARCH_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [searchTerm, view, router])
+
+  const allCategories = [
+    { name: "All", slug: null, count: postCount },
+    ...categories
+  ]
+
+  return (
+    <>
+      {/* Hero Section */}
+      <section className="py-16 bg-gray-50">
+        <div className="container-custom">
+          <div className="max-w-3xl mx-auto text-center">
+            <div className="flex items-center justify-center gap-2 text-sm mb-6">
+              <Link href="/" className="text-gray-600 hover:text-brand-teal transition-colors">Home</Link>
+              <ChevronRight className="h-4 w-4 text-gray-400" />
+              <span className="text-brand-teal">Blog</span>
+            </div>
+            <h1 className="text-4xl md:text-5xl font-bold mb-6">Our Blog</h1>
+            <p className="text-lg text-gray-600 mb-8">
+              Industry insights, expert tips, and the latest trends in digital marketing, web development, and technology.
+            </p>
+            <div className="flex items-center justify-center max-w-md mx-auto">
+              <div className="relative w-full">
+                <input
+                  type="text"
+                  placeholder="Search articles..."
+                  className="w-full px-4 py-3 pl-12 rounded-full border border-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-teal/50 focus:border-brand-teal"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+                <SearchIcon className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Categories Filter */}
+      <section className="py-8 border-b">
+        <div className="container-custom">
+          <div className="flex flex-wrap justify-center gap-3">
+            {allCategories.map((category) => (
+              <Link
+                key={category.name}
+                href={blogHref({ ...view, category: category.slug, page: 1 })}
+                scroll={false}
+                className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                  category.slug === view.category
+                    ? "bg-brand-teal text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {category.name}
+                <span className="ml-1.5 opacity-70">{category.count}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {searchResults ? (
+        <section className="py-16 bg-gray-50">
+          <div className="container-custom">
+            <h2 className="text-2xl font-bold mb-8">Search Results</h2>
+
+            {searchResults.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-gray-500">No articles found matching your criteria.</p>
+                <Button asChild className="mt-4 bg-brand-teal hover:bg-brand-teal/90 text-white">
+                  <Link href="/blog">Reset Filters</Link>
+                </Button>
+              </div>
+            ) : (
+              <div className={`space-y-6 max-w-4xl mx-auto transition-opacity ${isNavigating ? "opacity-60" : ""}`}>
+                {searchResults.map((result) => (
+                  <article key={result.id} className="bg-white rounded-lg shadow-sm p-6 flex gap-6">
+                    <div className="relative h-24 w-32 rounded-md overflow-hidden flex-shrink-0 hidden sm:block">
+                      <CoverImage
+                        src={result.image}
+                        avif={result.image_avif}
+                        placeholder={result.image_placeholder}
+                        alt={result.title}
+                      />
+                    </div>
+                    <div className="min-w-0">
+                      <CategoryLinks categories={result.categories} className="mb-2" />
+                      <h3 className="text-lg font-bold mb-2">
+                        <Link href={`/blog/${result.slug}`} className="hover:text-brand-teal transition-colors">
+                          <Highlighted text={result.titleHighlight} />
+                        </Link>
+                      </h3>
+                      <p className="text-gray-600 text-sm mb-3">
+                        <Highlighted text={result.snippet} />
+                      </p>
+                      <div className="flex items-center gap-4 text-xs text-gray-500">
+                        <div className="flex items-center gap-1">
+                          <User className="h-3 w-3" />
+                          <span>{result.author}</span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          <span>{formatPostDate(result.date)}</span>
+                        </div>
+                        <EngagementCounts views={result.view_count ?? 0} reactions={totalReactions(result.reaction_counts)} />
+                      </div>
+                    </div>
+                  </article>
+                ))}
+              </div>
+            )}
+
+            <Pagination {...pagination} href={page => blogHref({ ...view, page })} />
+          </div>
+        </section>
+      ) : (
+        <>
+          {/* Featured Posts */}
+          {featuredPosts.length > 0 && (
+            <section className="py-16">
+              <div className="container-custom">
+                <h2 className="text-2xl font-bold mb-8">Featured Articles</h2>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                  {featuredPosts.map((post) => (
+                    <article key={post.id} className="bg-white rounded-lg overflow-hidden shadow-md">
+                      <div className="relative h-64">
+                        <CoverImage
+                          src={post.image}
+                          avif={post.imageAvif}
+                          placeholder={post.imagePlaceholder}
+                          alt={post.title}
+                        />
+                        <div className="absolute top-4 left-4">
+                          <span className="bg-brand-teal text-white text-xs px-3 py-1 rounded-full uppercase">
+                            Featured
+                          </span>
+                        </div>
+                      </div>
+                      <div className="p-6">
+                        <CategoryLinks categories={post.categories} />
+                        <h3 className="text-xl font-bold mb-3">
+                          <Link href={`/blog/${post.slug}`} className="hover:text-brand-teal transition-colors">
+                            {post.title}
+                          </Link>
+                        </h3>
+                        <p className="text-gray-600 mb-4">{post.excerpt}</p>
+                        <div className="flex justify-between items-center pt-4 border-t border-gray-100">
+                          <div className="flex items-center gap-1 text-sm text-gray-500">
+                            <Calendar className="h-4 w-4" />
+                            <span>{post.date}</span>
+                          </div>
+                          <div className="flex items-center gap-1 text-sm text-gray-500">
+                            <Clock className="h-4 w-4" />
+                            <span>{post.readTime}</span>
+                          </div>
+                        </div>
+                        <EngagementCounts views={post.views} reactions={post.reactions} className="pt-3" />
+                      </div>
+                    </article>
+                  ))}
+                </div>
+              </div>
+            </section>
+          )}
+
+          {/* All Posts */}
+          <section className={`py-16 bg-gray-50 transition-opacity ${isNavigating ? "opacity-60" : ""}`}>
+            <div className="container-custom">
+              <h2 className="text-2xl font-bold mb-8">Latest Articles</h2>
+
+              {posts.length === 0 && featuredPosts.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-gray-500">No articles found matching your criteria.</p>
+                  <Button asChild className="mt-4 bg-brand-teal hover:bg-brand-teal/90 text-white">
+                    <Link href="/blog">Reset Filters</Link>
+                  </Button>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {posts.map((post) => (
+                    <PostCard key={post.id} post={post} />
+                  ))}
+                </div>
+              )}
+
+              <Pagination {...pagination} href={page => blogHref({ ...view, page })} />
+            </div>
+          </section>
+        </>
+      )}
+    </>
+  )
+}
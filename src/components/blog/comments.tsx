@@ -0,0 +1,186 @@
+"use client"
+
+import { useState } from "react"
+import { MessageCircle, Reply } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { COMMENT_BODY_MAX_LENGTH, MAX_COMMENT_DEPTH } from "@/lib/comments/types"
+
+// An approved comment as the post page passes it in, dated on the server
+export interface CommentView {
+  id: string
+  depth: number
+  name: string
+  body: string
+  date: string
+  replies: CommentView[]
+}
+
+const emptyForm = { name: "", email: "", body: "", website: "" }
+
+// parentId is the comment being replied to, onDone closes a reply form
+function CommentForm({ postId, parentId = null, onDone }: { postId: string; parentId?: string | null; onDone?: () => void }) {
+  const [form, setForm] = useState(emptyForm)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const idPrefix = `comment-${parentId ?? "new"}`
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/comments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, post_id: postId, parent_id: parentId }),
+      })
+      const result = await response.json().catch(() => null)
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.message || "Failed to send your comment. Please try again.")
+      }
+
+      // Name and email stay filled in for the next comment
+      setForm({ ...form, body: "" })
+      toast.success(result.message)
+      onDone?.()
+    } catch (error) {
+      console.error("Error sending comment:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to send your comment. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+          <Input
+            id={`${idPrefix}-name`}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            maxLength={80}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-email`}>Email</Label>
+          <Input
+            id={`${idPrefix}-email`}
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            required
+          />
+        </div>
+      </div>
+      {/* Left empty by people, bots that fill in every field get caught */}
+      <div className="hidden" aria-hidden="true">
+        <label htmlFor={`${idPrefix}-website`}>Website</label>
+        <input
+          id={`${idPrefix}-website`}
+          tabIndex={-1}
+          autoComplete="off"
+          value={form.website}
+          onChange={(e) => setForm({ ...form, website: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-body`}>{parentId ? "Reply" : "Comment"}</Label>
+        <Textarea
+          id={`${idPrefix}-body`}
+          rows={parentId ? 3 : 5}
+          value={form.body}
+          onChange={(e) => setForm({ ...form, body: e.target.value })}
+          maxLength={COMMENT_BODY_MAX_LENGTH}
+          required
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="submit" className="bg-brand-teal hover:bg-brand-teal/90 text-white" disabled={isSubmitting}>
+          {isSubmitting ? "Sending..." : parentId ? "Post Reply" : "Post Comment"}
+        </Button>
+        {onDone && (
+          <Button type="button" variant="outline" onClick={onDone}>
+            Cancel
+          </Button>
+        )}
+        <p className="text-sm text-gray-500">Your email is never shown. Comments appear after moderation.</p>
+      </div>
+    </form>
+  )
+}
+
+function Comment({ comment, postId }: { comment: CommentView; postId: string }) {
+  const [replying, setReplying] = useState(false)
+
+  return (
+    <li>
+      <div className="flex gap-3">
+        <div className="h-10 w-10 flex-shrink-0 rounded-full bg-brand-teal/10 text-brand-teal flex items-center justify-center font-semibold">
+          {comment.name.charAt(0).toUpperCase()}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-baseline gap-x-3">
+            <span className="font-semibold">{comment.name}</span>
+            <span className="text-xs text-gray-500">{comment.date}</span>
+          </div>
+          <p className="mt-1 text-gray-700 whitespace-pre-line break-words">{comment.body}</p>
+          {comment.depth < MAX_COMMENT_DEPTH && !replying && (
+            <button
+              type="button"
+              onClick={() => setReplying(true)}
+              className="mt-2 inline-flex items-center gap-1 text-sm text-gray-500 hover:text-brand-teal transition-colors"
+            >
+              <Reply className="h-4 w-4" />
+              Reply
+            </button>
+          )}
+          {replying && (
+            <div className="mt-4">
+              <CommentForm postId={postId} parentId={comment.id} onDone={() => setReplying(false)} />
+            </div>
+          )}
+        </div>
+      </div>
+      {comment.replies.length > 0 && (
+        <ul className="mt-6 ml-5 pl-5 border-l space-y-6">
+          {comment.replies.map((reply) => (
+            <Comment key={reply.id} comment={reply} postId={postId} />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+// The approved comments on a post, replies nested under what they answer,
+// and the form for a new one
+export default function Comments({ postId, comments, count }: { postId: string; comments: CommentView[]; count: number }) {
+  return (
+    <section id="comments" className="mt-10 pt-6 border-t">
+      <h2 className="flex items-center gap-2 text-2xl font-bold mb-6">
+        <MessageCircle className="h-6 w-6 text-brand-teal" />
+        {count === 1 ? "1 Comment" : `${count} Comments`}
+      </h2>
+
+      {comments.length > 0 ? (
+        <ul className="space-y-6 mb-10">
+          {comments.map((comment) => (
+            <Comment key={comment.id} comment={comment} postId={postId} />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-600 mb-10">No comments yet. Start the conversation below.</p>
+      )}
+
+      <div className="p-6 bg-gray-50 rounded-xl">
+        <h3 className="font-bold text-lg mb-4">Leave a Comment</h3>
+        <CommentForm postId={postId} />
+      </div>
+    </section>
+  )
+}
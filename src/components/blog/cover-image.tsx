@@ -0,0 +1,37 @@
+import Image from "next/image"
+
+interface CoverImageProps {
+  src: string
+  // Uploaded covers also come as AVIF and with a blur placeholder
+  avif?: string | null
+  placeholder?: string | null
+  alt: string
+  className?: string
+  priority?: boolean
+}
+
+// A post's cover filling its container, which has to be position: relative.
+// Browsers that take AVIF get that version, the rest the WebP one.
+export default function CoverImage({ src, avif, placeholder, alt, className = "object-cover", priority }: CoverImageProps) {
+  const image = (
+    <Image
+      src={src}
+      alt={alt}
+      fill
+      className={className}
+      priority={priority}
+      placeholder={placeholder ? "blur" : "empty"}
+      blurDataURL={placeholder ?? undefined}
+    />
+  )
+  if (!avif) {
+    return image
+  }
+
+  return (
+    <picture>
+      <source type="image/avif" srcSet={avif} />
+      {image}
+    </picture>
+  )
+}
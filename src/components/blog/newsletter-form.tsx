@@ -0,0 +1,130 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { supabase, TABLES } from "@/lib/supabase"
+import { toast } from "sonner"
+
+const INPUT_CLASS_NAME = "px-4 py-3 rounded-lg border border-gray-300 flex-grow focus:outline-none focus:ring-2 focus:ring-brand-teal/50 focus:border-brand-teal"
+
+// inputClassName restyles the email field for dark backgrounds
+export default function NewsletterForm({ inputClassName = INPUT_CLASS_NAME }: { inputClassName?: string }) {
+  const [email, setEmail] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubscribe = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+
+    if (!email.trim() || !email.includes('@')) {
+      toast.error("Please enter a valid email address")
+      setIsSubmitting(false)
+      return
+    }
+
+    try {
+      // Check if Supabase is properly configured
+      if (!supabase) {
+        throw new Error("Database not configured")
+      }
+
+      // Create a new subscriber
+      const currentDate = new Date()
+      const subscriber = {
+        email: email.trim(),
+        date: currentDate.toISOString(),
+        created_at: currentDate.toISOString()
+      }
+
+      // Insert the subscriber into Supabase. Visitors may only add rows, not
+      // read them, so an email that is already there shows up as a unique
+      // violation (23505).
+      const { error } = await supabase
+        .from(TABLES.SUBSCRIBERS)
+        .insert(subscriber)
+
+      if (error?.code === "23505") {
+        toast.error("This email is already subscribed")
+        setIsSubmitting(false)
+        return
+      }
+      if (error) {
+        throw error
+      }
+
+      // Reset email field
+      setEmail("")
+
+      // Show success message
+      toast.success("Thank you for subscribing to our newsletter!")
+    } catch (error) {
+      console.error("Error saving subscriber to Supabase:", error)
+      if (error instanceof Error) {
+        toast.error("Failed to subscribe. " + (error.message || "Please try again."))
+      } else {
+        toast.error("Failed to subscribe. Please try again.")
+      }
+
+      // Fallback to localStorage
+      try {
+        // Create a new subscriber for localStorage
+        const newSubscriber = {
+          id: Date.now().toString(),
+          email: email.trim(),
+          date: new Date().toLocaleDateString("en-US", {
+            year: "numeric",
+            month: "long",
+            day: "numeric"
+          })
+        }
+
+        // Get existing subscribers from localStorage
+        const existingSubscribersJSON = localStorage.getItem("subscribers")
+        const existingSubscribers = existingSubscribersJSON
+          ? JSON.parse(existingSubscribersJSON)
+          : []
+
+        // Check if email already exists in localStorage
+        if (existingSubscribers.some((sub: { email: string }) => sub.email === email)) {
+          toast.error("This email is already subscribed")
+          return
+        }
+
+        // Add new subscriber to localStorage
+        const updatedSubscribers = [...existingSubscribers, newSubscriber]
+        localStorage.setItem("subscribers", JSON.stringify(updatedSubscribers))
+
+        // Reset email field
+        setEmail("")
+
+        // Show success message
+        toast.success("Thank you for subscribing to our newsletter! (Saved locally)")
+      } catch (localError) {
+        console.error("Error saving to localStorage:", localError)
+        toast.error("Failed to subscribe to newsletter.")
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubscribe} className="flex flex-col sm:flex-row gap-3 max-w-lg mx-auto">
+      <input
+        type="email"
+        placeholder="Enter your email"
+        className={inputClassName}
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        required
+      />
+      <Button
+        type="submit"
+        className="bg-brand-teal hover:bg-brand-teal/90 text-white whitespace-nowrap"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? "Subscribing..." : "Subscribe"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,56 @@
+import Link from "next/link"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+export interface PaginationState {
+  page: number
+  hasNextPage: boolean
+  // Unknown for search results, which are not counted
+  totalPages?: number
+}
+
+interface PaginationProps extends PaginationState {
+  // The URL of another page of the same listing
+  href: (page: number) => string
+}
+
+// Previous and next links under a listing, nothing when it fits on one page
+export default function Pagination({ page, hasNextPage, totalPages, href }: PaginationProps) {
+  if (page === 1 && !hasNextPage) {
+    return null
+  }
+
+  return (
+    <nav aria-label="Pagination" className="flex items-center justify-center gap-4 mt-12">
+      {page > 1 ? (
+        <Button asChild variant="outline">
+          <Link href={href(page - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </Link>
+        </Button>
+      ) : (
+        <Button variant="outline" disabled>
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </Button>
+      )}
+      <span className="text-sm text-gray-600">
+        {totalPages ? `Page ${page} of ${totalPages}` : `Page ${page}`}
+      </span>
+      {hasNextPage ? (
+        <Button asChild className="bg-brand-teal hover:bg-brand-teal/90 text-white">
+          <Link href={href(page + 1)}>
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </Link>
+        </Button>
+      ) : (
+        <Button className="bg-brand-teal hover:bg-brand-teal/90 text-white" disabled>
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      )}
+    </nav>
+  )
+}
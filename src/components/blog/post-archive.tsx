@@ -0,0 +1,61 @@
+import Link from "next/link"
+import { ChevronRight, Rss } from "lucide-react"
+import Pagination from "@/components/blog/pagination"
+import PostCard, { toListingPost } from "@/components/blog/post-card"
+import { FEED_FORMATS } from "@/lib/feed"
+import { type Archive, archiveHref } from "@/lib/posts/archive"
+
+// One page of a category or tag archive
+export default function PostArchive({ archive }: { archive: Archive }) {
+  const { term, page, totalPages } = archive
+
+  return (
+    <div className="flex flex-col">
+      {/* Hero Section */}
+      <section className="py-16 bg-gray-50">
+        <div className="container-custom">
+          <div className="max-w-3xl mx-auto text-center">
+            <div className="flex items-center justify-center gap-2 text-sm mb-6">
+              <Link href="/" className="text-gray-600 hover:text-brand-teal transition-colors">Home</Link>
+              <ChevronRight className="h-4 w-4 text-gray-400" />
+              <Link href="/blog" className="text-gray-600 hover:text-brand-teal transition-colors">Blog</Link>
+              <ChevronRight className="h-4 w-4 text-gray-400" />
+              <span className="text-brand-teal">{term.name}</span>
+            </div>
+            <p className="text-sm font-medium uppercase tracking-wide text-brand-teal mb-3">
+              {archive.kind === "category" ? "Category" : "Tag"}
+            </p>
+            <h1 className="text-4xl md:text-5xl font-bold mb-6">{archive.title}</h1>
+            <p className="text-lg text-gray-600 mb-6">
+              {term.count === 1 ? "1 article" : `${term.count} articles`}
+            </p>
+            <Link
+              href={`${archive.basePath}/${FEED_FORMATS.rss.file}`}
+              className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-brand-teal transition-colors"
+            >
+              <Rss className="h-4 w-4" />
+              Subscribe to this {archive.kind}
+            </Link>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="container-custom">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {archive.posts.map((post) => (
+              <PostCard key={post.id} post={toListingPost(post)} />
+            ))}
+          </div>
+
+          <Pagination
+            page={page}
+            hasNextPage={page < totalPages}
+            totalPages={totalPages}
+            href={(target) => archiveHref(archive, target)}
+          />
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import Link from "next/link"
+import { Calendar, Eye, SmilePlus, Tag, User } from "lucide-react"
+import type { BlogListingPost } from "@/components/blog/blog-listing"
+import CoverImage from "@/components/blog/cover-image"
+import { formatCount, formatPostDate } from "@/lib/posts/format"
+import { categoryHref } from "@/lib/posts/listing"
+import { totalReactions } from "@/lib/posts/reactions"
+import type { PostSummary } from "@/lib/posts/types"
+
+// A post as cards show it, call on the server
+export function toListingPost(post: PostSummary): BlogListingPost {
+  return {
+    id: post.id,
+    slug: post.slug,
+    title: post.title,
+    excerpt: post.excerpt,
+    image: post.image,
+    // Search results from a database whose search function predates
+    // uploads come without them
+    imageAvif: post.image_avif ?? null,
+    imagePlaceholder: post.image_placeholder ?? null,
+    author: post.author,
+    date: formatPostDate(post.date),
+    readTime: post.read_time,
+    categories: post.categories,
+    featured: post.featured,
+    // Search results from a database whose search function predates the
+    // counts come without them
+    views: post.view_count ?? 0,
+    reactions: totalReactions(post.reaction_counts)
+  }
+}
+
+// How many people read and reacted to a post
+export function EngagementCounts({ views, reactions, className = "" }: { views: number; reactions: number; className?: string }) {
+  return (
+    <div className={`flex items-center gap-3 text-xs text-gray-500 ${className}`}>
+      <span className="flex items-center gap-1" title={`${views} views`}>
+        <Eye className="h-3 w-3" />
+        {formatCount(views)}
+      </span>
+      <span className="flex items-center gap-1" title={`${reactions} reactions`}>
+        <SmilePlus className="h-3 w-3" />
+        {formatCount(reactions)}
+      </span>
+    </div>
+  )
+}
+
+// The categories of a post, each linking to its archive
+export function CategoryLinks({ categories, className = "mb-3" }: { categories: string[]; className?: string }) {
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {categories.map((category) => (
+        <Link
+          key={category}
+          href={categoryHref(category)}
+          className="text-xs text-brand-teal font-medium flex items-center gap-1 hover:underline"
+        >
+          <Tag className="h-3 w-3" />
+          {category}
+        </Link>
+      ))}
+    </div>
+  )
+}
+
+// A post in a grid of posts, on /blog and the archives
+export default function PostCard({ post }: { post: BlogListingPost }) {
+  return (
+    <article className="bg-white rounded-lg overflow-hidden shadow-sm">
+      <div className="relative h-52">
+        <CoverImage src={post.image} avif={post.imageAvif} placeholder={post.imagePlaceholder} alt={post.title} />
+      </div>
+      <div className="p-6">
+        <CategoryLinks categories={post.categories} />
+        <h3 className="text-lg font-bold mb-3">
+          <Link href={`/blog/${post.slug}`} className="hover:text-brand-teal transition-colors">
+            {post.title}
+          </Link>
+        </h3>
+        <p className="text-gray-600 text-sm mb-4">{post.excerpt}</p>
+        <div className="flex justify-between items-center pt-4 border-t border-gray-100">
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-1 text-xs text-gray-500">
+              <User className="h-3 w-3" />
+              <span>{post.author}</span>
+            </div>
+          </div>
+          <div className="flex items-center gap-1 text-xs text-gray-500">
+            <Calendar className="h-3 w-3" />
+            <span>{post.date}</span>
+          </div>
+        </div>
+        <EngagementCounts views={post.views} reactions={post.reactions} className="pt-3" />
+      </div>
+    </article>
+  )
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { REACTIONS, type ReactionCounts, type ReactionKey } from "@/lib/posts/reactions"
+
+// Random ids the browser keeps: one per session so a view is counted once,
+// one per reader so each reaction is left once. Neither says who the reader
+// is.
+const SESSION_ID_KEY = "blog-session-id"
+const READER_ID_KEY = "blog-reader-id"
+const reactedKey = (postId: string) => `blog-reactions:${postId}`
+
+function storedId(storage: Storage, key: string) {
+  let id = storage.getItem(key)
+  if (!id) {
+    id = crypto.randomUUID()
+    storage.setItem(key, id)
+  }
+  return id
+}
+
+// Do Not Track or Global Privacy Control, the server checks the headers too
+function trackingOptedOut() {
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean }
+  return nav.doNotTrack === "1" || nav.globalPrivacyControl === true
+}
+
+// Counts the view and shows the reactions of a post. counts come from the
+// rendered page and are replaced with the server's after every reaction.
+export default function PostEngagement({ postId, reactions }: { postId: string; reactions: ReactionCounts }) {
+  const [counts, setCounts] = useState(reactions)
+  // The reactions this browser has left on the post
+  const [reacted, setReacted] = useState<ReactionKey[]>([])
+  const [pending, setPending] = useState(false)
+
+  useEffect(() => {
+    try {
+      setReacted(JSON.parse(localStorage.getItem(reactedKey(postId)) ?? "[]"))
+    } catch {
+      setReacted([])
+    }
+
+    if (trackingOptedOut()) {
+      return
+    }
+    fetch(`/api/posts/${postId}/views`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ session_id: storedId(sessionStorage, SESSION_ID_KEY) }),
+      keepalive: true,
+    }).catch((error) => console.error("Error recording view:", error))
+  }, [postId])
+
+  const toggleReaction = async (reaction: ReactionKey) => {
+    const active = !reacted.includes(reaction)
+    const nextReacted = active ? [...reacted, reaction] : reacted.filter((key) => key !== reaction)
+    const previous = { counts, reacted }
+
+    // Shown straight away, put back if the server says no
+    setReacted(nextReacted)
+    setCounts({ ...counts, [reaction]: Math.max(0, (counts[reaction] ?? 0) + (active ? 1 : -1)) })
+    setPending(true)
+    try {
+      const response = await fetch(`/api/posts/${postId}/reactions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reader_id: storedId(localStorage, READER_ID_KEY), reaction, active }),
+      })
+      const result = await response.json().catch(() => null)
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.message || "Failed to save your reaction")
+      }
+
+      setCounts(result.reactions)
+      localStorage.setItem(reactedKey(postId), JSON.stringify(nextReacted))
+    } catch (error) {
+      console.error("Error saving reaction:", error)
+      setCounts(previous.counts)
+      setReacted(previous.reacted)
+      toast.error("Failed to save your reaction. Please try again.")
+    } finally {
+      setPending(false)
+    }
+  }
+
+  return (
+    <div className="mt-10 pt-6 border-t">
+      <p className="font-semibold text-gray-700 mb-3">How did you find this article?</p>
+      <div className="flex flex-wrap gap-2">
+        {REACTIONS.map(({ key, emoji, label }) => {
+          const active = reacted.includes(key)
+          return (
+            <button
+              key={key}
+              type="button"
+              onClick={() => toggleReaction(key)}
+              disabled={pending}
+              aria-pressed={active}
+              title={label}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full border text-sm transition-colors disabled:opacity-60 ${
+                active ? "border-brand-teal bg-brand-teal/10 text-brand-teal" : "border-gray-200 hover:bg-gray-100"
+              }`}
+            >
+              <span aria-hidden="true">{emoji}</span>
+              <span className="sr-only">{label}</span>
+              <span>{counts[key] ?? 0}</span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { TocHeading } from "@/lib/content/toc"
+
+// Links to the headings of a post, the one being read is highlighted
+export default function TableOfContents({ headings }: { headings: TocHeading[] }) {
+  const [activeId, setActiveId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const elements = headings
+      .map((heading) => document.getElementById(heading.id))
+      .filter((element): element is HTMLElement => element !== null)
+    if (elements.length === 0) {
+      return
+    }
+
+    // A heading is current from when it passes under the sticky site header
+    // until the next one reaches the upper part of the screen
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const visible = entries.filter((entry) => entry.isIntersecting)
+        if (visible.length > 0) {
+          setActiveId(visible[0].target.id)
+        }
+      },
+      { rootMargin: "-80px 0px -70% 0px" }
+    )
+    for (const element of elements) {
+      observer.observe(element)
+    }
+    return () => observer.disconnect()
+  }, [headings])
+
+  return (
+    <nav aria-label="Table of contents">
+      <ul className="space-y-2 text-sm">
+        {headings.map((heading) => (
+          <li key={heading.id} className={heading.level === 3 ? "pl-4" : undefined}>
+            <a
+              href={`#${heading.id}`}
+              aria-current={activeId === heading.id ? "location" : undefined}
+              className={`block border-l-2 pl-3 transition-colors ${
+                activeId === heading.id
+                  ? "border-brand-teal text-brand-teal font-medium"
+                  : "border-transparent text-gray-600 hover:text-brand-teal"
+              }`}
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  )
+}
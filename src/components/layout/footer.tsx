@@ -59,22 +59,6 @@ export default function Footer() {
         throw new Error("Database not configured")
       }
 
-      // Check if the email already exists in Supabase
-      const { data: existingSubscribers, error: checkError } = await supabase
-        .from(TABLES.SUBSCRIBERS)
-        .select('email')
-        .eq('email', email.trim())
-
-      if (checkError) {
-        throw checkError
-      }
-
-      if (existingSubscribers && existingSubscribers.length > 0) {
-        toast.error("This email is already subscribed")
-        setIsSubmitting(false)
-        return
-      }
-
       // Create a new subscriber
       const currentDate = new Date()
       const subscriber = {
@@ -83,11 +67,18 @@ export default function Footer() {
         created_at: currentDate.toISOString()
       }
 
-      // Insert the subscriber into Supabase
+      // Insert the subscriber into Supabase. Visitors may only add rows, not
+      // read them, so an email that is already there shows up as a unique
+      // violation (23505).
       const { error } = await supabase
         .from(TABLES.SUBSCRIBERS)
         .insert(subscriber)
 
+      if (error?.code === "23505") {
+        toast.error("This email is already subscribed")
+        setIsSubmitting(false)
+        return
+      }
       if (error) {
         throw error
       }
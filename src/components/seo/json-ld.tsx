@@ -0,0 +1,13 @@
+// Structured data for search engines, see lib/structured-data.ts
+export default function JsonLd({ data }: { data: object }) {
+  // "<" is escaped so a value such as "</script>" cannot end the tag early
+  const json = JSON.stringify(data).replace(/</g, "\\u003c")
+
+  return (
+    <script
+      type="application/ld+json"
+      // biome-ignore lint/security/noDangerouslySetInnerHtml: JSON with "<" escaped, not HTML
+      dangerouslySetInnerHTML={{ __html: json }}
+    />
+  )
+}
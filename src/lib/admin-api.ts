@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+// Small fetch wrapper for the dashboard. The admin route handlers answer
+// with `{ success, message, ...data }`, this throws the message on failure
+// so callers can keep the usual try/catch + toast pattern.
+export async function adminFetch<T = Record<string, unknown>>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      // Form data sets its own multipart content type
+      ...(init?.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
+      ...init?.headers,
+    },
+  });
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || `Request failed with status ${response.status}`);
+  }
+
+  return result as T;
+}
+
+// Post saves answer with what the sanitizer took out of the content
+export interface PostSaveResult {
+  removedContent?: string[];
+}
+
+export function warnRemovedContent(result: PostSaveResult) {
+  if (result.removedContent && result.removedContent.length > 0) {
+    toast.warning(`Some content was not allowed and has been removed: ${result.removedContent.join(", ")}`, {
+      duration: 10000,
+    });
+  }
+}
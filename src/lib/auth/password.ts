@@ -0,0 +1,54 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+// Password hashes are stored as `scrypt$<N>$<r>$<p>$<salt>$<hash>` so the
+// cost parameters can be raised later without invalidating existing hashes.
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer, n: number, r: number, p: number) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N: n, r, p }, (error, key) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(key);
+      }
+    });
+  });
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ["scrypt", SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, storedHash: string) {
+  const [algorithm, n, r, p, salt, hash] = storedHash.split("$");
+  if (algorithm !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "base64");
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), Number(n), Number(r), Number(p));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+let dummyHash: Promise<string> | undefined;
+
+// Takes as long as verifyPassword but always fails. Used when the username
+// does not exist so response times do not reveal which accounts are real.
+export async function verifyDummyPassword(password: string) {
+  dummyHash ??= hashPassword(randomBytes(16).toString("hex"));
+  await verifyPassword(password, await dummyHash);
+  return false;
+}
+
+// Constant-time string comparison for secrets of arbitrary length
+export function safeEqual(a: string, b: string) {
+  const left = createHash("sha256").update(a).digest();
+  const right = createHash("sha256").update(b).digest();
+  return timingSafeEqual(left, right);
+}
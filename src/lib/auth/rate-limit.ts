@@ -0,0 +1,116 @@
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+// Login throttling is derived from the admin_login_attempts log rather than
+// kept in memory, so it holds across server instances and restarts.
+//
+// Once a key (IP or username) reaches its failure threshold inside the
+// window, it is locked for BASE_LOCKOUT_SECONDS. Every further failure
+// doubles the lockout, up to MAX_LOCKOUT_SECONDS.
+
+export type LoginOutcome =
+  | "success"
+  | "invalid_credentials"
+  | "locked"
+  // Password was right, the 2FA code is still outstanding
+  | "mfa_required"
+  | "mfa_failed";
+
+// Outcomes that count towards a lockout. Wrong 2FA codes count as well so
+// the 6 digit codes cannot be brute-forced once a password has leaked.
+const FAILURE_OUTCOMES: LoginOutcome[] = ["invalid_credentials", "mfa_failed"];
+
+const WINDOW_MINUTES = 60;
+const USERNAME_THRESHOLD = 5;
+const IP_THRESHOLD = 20;
+const BASE_LOCKOUT_SECONDS = 60;
+const MAX_LOCKOUT_SECONDS = 60 * 60;
+
+interface LoginAttemptInfo {
+  username: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+interface FailureRow {
+  created_at: string;
+}
+
+function lockoutSeconds(failures: number, threshold: number) {
+  if (failures < threshold) {
+    return 0;
+  }
+  return Math.min(BASE_LOCKOUT_SECONDS * 2 ** (failures - threshold), MAX_LOCKOUT_SECONDS);
+}
+
+// Failed attempts for one key inside the window, newest first, ignoring
+// anything before the last successful login for that key
+async function recentFailures(column: "ip" | "username", value: string) {
+  const since = new Date(Date.now() - WINDOW_MINUTES * 60 * 1000).toISOString();
+
+  const { data: lastSuccess, error: successError } = await supabaseAdmin
+    .from(TABLES.ADMIN_LOGIN_ATTEMPTS)
+    .select("created_at")
+    .eq(column, value)
+    .eq("outcome", "success")
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (successError) {
+    throw successError;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.ADMIN_LOGIN_ATTEMPTS)
+    .select("created_at")
+    .eq(column, value)
+    .in("outcome", FAILURE_OUTCOMES)
+    .gte("created_at", lastSuccess?.created_at ?? since)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as FailureRow[];
+}
+
+function lockedUntil(failures: FailureRow[], threshold: number) {
+  const seconds = lockoutSeconds(failures.length, threshold);
+  if (!seconds) {
+    return 0;
+  }
+  return new Date(failures[0].created_at).getTime() + seconds * 1000;
+}
+
+// Returns the number of seconds the caller has to wait, or 0 if the login
+// attempt may go ahead
+export async function getLoginLockout({ username, ip }: Pick<LoginAttemptInfo, "username" | "ip">) {
+  const [usernameFailures, ipFailures] = await Promise.all([
+    recentFailures("username", username.toLowerCase()),
+    ip ? recentFailures("ip", ip) : Promise.resolve([]),
+  ]);
+
+  const until = Math.max(
+    lockedUntil(usernameFailures, USERNAME_THRESHOLD),
+    lockedUntil(ipFailures, IP_THRESHOLD),
+  );
+
+  return Math.max(0, Math.ceil((until - Date.now()) / 1000));
+}
+
+export async function recordLoginAttempt(info: LoginAttemptInfo, outcome: LoginOutcome) {
+  const { error } = await supabaseAdmin.from(TABLES.ADMIN_LOGIN_ATTEMPTS).insert({
+    username: info.username.toLowerCase(),
+    ip: info.ip,
+    user_agent: info.userAgent,
+    outcome,
+  });
+
+  // A failing audit log should not lock everybody out of the dashboard
+  if (error) {
+    console.error("Error recording login attempt:", error);
+  }
+}
@@ -0,0 +1,73 @@
+// Admin roles and what each of them is allowed to do. This module has no
+// server dependencies so the dashboard can use it to hide actions, but the
+// route handlers are what actually enforce it.
+
+export const ROLES = ["author", "editor", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "posts:create"
+  | "posts:edit-own"
+  | "posts:edit-any"
+  | "posts:publish"
+  | "posts:delete"
+  | "authors:manage"
+  | "comments:moderate"
+  | "subscribers:manage"
+  | "users:manage"
+  | "security:view";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  author: ["posts:create", "posts:edit-own"],
+  editor: [
+    "posts:create",
+    "posts:edit-own",
+    "posts:edit-any",
+    "posts:publish",
+    "posts:delete",
+    "authors:manage",
+    "comments:moderate",
+  ],
+  admin: [
+    "posts:create",
+    "posts:edit-own",
+    "posts:edit-any",
+    "posts:publish",
+    "posts:delete",
+    "authors:manage",
+    "comments:moderate",
+    "subscribers:manage",
+    "users:manage",
+    "security:view",
+  ],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  author: "Author",
+  editor: "Editor",
+  admin: "Admin",
+};
+
+export interface AdminUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: Role;
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function can(role: Role, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Authors may only edit the posts they created, editors and admins any post
+export function canEditPost(user: AdminUser, post: { createdBy?: string | null }) {
+  if (can(user.role, "posts:edit-any")) {
+    return true;
+  }
+  return can(user.role, "posts:edit-own") && !!post.createdBy && post.createdBy === user.id;
+}
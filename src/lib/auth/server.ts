@@ -0,0 +1,188 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { type AdminUser, type Permission, can } from "@/lib/auth/roles";
+import { toAdminUser } from "@/lib/auth/users";
+import {
+  MFA_COOKIE,
+  MFA_TTL_SECONDS,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  type SessionPayload,
+  sessionCookieOptions,
+  signSession,
+  verifySession,
+} from "@/lib/auth/session";
+
+export interface AdminSession {
+  id: string;
+  user: AdminUser;
+  expiresAt: Date;
+}
+
+interface SessionRequestInfo {
+  ip: string | null;
+  userAgent: string | null;
+}
+
+// Netlify sets x-nf-client-connection-ip itself, so prefer it over the
+// forwarding headers a client could spoof
+export function getRequestInfo(req: Request): SessionRequestInfo {
+  const forwardedFor = req.headers.get("x-forwarded-for");
+  return {
+    ip:
+      req.headers.get("x-nf-client-connection-ip") ||
+      req.headers.get("x-real-ip") ||
+      (forwardedFor ? forwardedFor.split(",")[0].trim() : null),
+    userAgent: req.headers.get("user-agent"),
+  };
+}
+
+// Stores a new session row and sets the signed session cookie on the response
+export async function startAdminSession(
+  response: NextResponse,
+  user: AdminUser,
+  info: SessionRequestInfo,
+) {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.ADMIN_SESSIONS)
+    .insert({
+      user_id: user.id,
+      ip: info.ip,
+      user_agent: info.userAgent,
+      expires_at: expiresAt.toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const payload: SessionPayload = {
+    purpose: "session",
+    sid: data.id,
+    sub: user.id,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  };
+
+  response.cookies.set(SESSION_COOKIE, await signSession(payload), sessionCookieOptions(expiresAt));
+  return response;
+}
+
+// Reads the session cookie of the current request. The middleware already
+// rejects bad signatures, this additionally checks that the session has not
+// been revoked by a logout.
+export async function getAdminSession(): Promise<AdminSession | null> {
+  const cookieStore = await cookies();
+  const payload = await verifySession(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!payload) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.ADMIN_SESSIONS)
+    .select("id, expires_at, revoked_at, user:admin_users(id, username, display_name, role, disabled)")
+    .eq("id", payload.sid)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading admin session:", error);
+    return null;
+  }
+
+  if (!data || data.revoked_at || new Date(data.expires_at).getTime() <= Date.now()) {
+    return null;
+  }
+
+  // Role changes and disabled accounts take effect on the next request
+  const user = Array.isArray(data.user) ? data.user[0] : data.user;
+  if (!user || user.disabled) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    user: toAdminUser(user),
+    expiresAt: new Date(data.expires_at),
+  };
+}
+
+type AuthorizationResult =
+  | { session: AdminSession; response: null }
+  | { session: null; response: NextResponse };
+
+// Resolves the current session and checks it has the given permission.
+// Route handlers return `response` as is when `session` is null.
+export async function requirePermission(permission?: Permission): Promise<AuthorizationResult> {
+  const session = await getAdminSession();
+  if (!session) {
+    return { session: null, response: unauthorizedResponse() };
+  }
+  if (permission && !can(session.user.role, permission)) {
+    return { session: null, response: forbiddenResponse() };
+  }
+  return { session, response: null };
+}
+
+export async function revokeAdminSession(sessionId: string) {
+  const { error } = await supabaseAdmin
+    .from(TABLES.ADMIN_SESSIONS)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", sessionId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Remembers which user passed the password check until they enter a code
+export async function startMfaChallenge(response: NextResponse, user: AdminUser) {
+  const expiresAt = new Date(Date.now() + MFA_TTL_SECONDS * 1000);
+  const token = await signSession({
+    purpose: "mfa",
+    sid: crypto.randomUUID(),
+    sub: user.id,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  });
+  response.cookies.set(MFA_COOKIE, token, sessionCookieOptions(expiresAt));
+  return response;
+}
+
+// Returns the id of the user with a pending 2FA challenge, if any
+export async function getMfaChallengeUserId() {
+  const cookieStore = await cookies();
+  const payload = await verifySession(cookieStore.get(MFA_COOKIE)?.value, "mfa");
+  return payload?.sub ?? null;
+}
+
+export function clearMfaCookie(response: NextResponse) {
+  response.cookies.set(MFA_COOKIE, "", sessionCookieOptions(new Date(0)));
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", sessionCookieOptions(new Date(0)));
+  return response;
+}
+
+export function unauthorizedResponse(message = "Unauthorized") {
+  return NextResponse.json({ success: false, message }, { status: 401 });
+}
+
+export function tooManyAttemptsResponse(retryAfterSeconds: number) {
+  return NextResponse.json(
+    {
+      success: false,
+      message: `Too many failed attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } },
+  );
+}
+
+export function forbiddenResponse(message = "You do not have permission to do that") {
+  return NextResponse.json({ success: false, message }, { status: 403 });
+}
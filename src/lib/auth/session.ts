@@ -0,0 +1,123 @@
+// Signed admin session tokens.
+//
+// This module only uses Web Crypto so it can run in the edge middleware as
+// well as in route handlers. A token is `<payload>.<signature>`, both parts
+// base64url encoded, where the signature is an HMAC-SHA256 of the payload.
+
+export const SESSION_COOKIE = "admin_session";
+
+// Holds the pending login between the password and the 2FA step
+export const MFA_COOKIE = "admin_mfa";
+
+// Sessions expire after 8 hours
+export const SESSION_TTL_SECONDS = 60 * 60 * 8;
+
+// The 2FA step has to be completed within 5 minutes of the password check
+export const MFA_TTL_SECONDS = 60 * 5;
+
+export type TokenPurpose = "session" | "mfa";
+
+export interface SessionPayload {
+  // Keeps a pending 2FA token from being used as a session cookie
+  purpose: TokenPurpose;
+  // Session id, matches a row in the admin_sessions table. Random for 2FA tokens.
+  sid: string;
+  // Id of the signed in admin user
+  sub: string;
+  // Expiry as a unix timestamp in seconds
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function getSecret() {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("ADMIN_SESSION_SECRET must be set to at least 32 characters");
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getKey() {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+export async function signSession(payload: SessionPayload) {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await getKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns the payload if the signature is valid and the token has not
+// expired. It does not check revocation, see getAdminSession for that.
+export async function verifySession(
+  token: string | undefined,
+  purpose: TokenPurpose = "session",
+): Promise<SessionPayload | null> {
+  if (!token) {
+    return null;
+  }
+
+  const [body, signature] = token.split(".");
+  if (!body || !signature) {
+    return null;
+  }
+
+  try {
+    // crypto.subtle.verify compares the signature in constant time
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(body),
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as SessionPayload;
+    if (payload.purpose !== purpose || typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function sessionCookieOptions(expires: Date) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    expires,
+  };
+}
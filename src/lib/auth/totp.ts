@@ -0,0 +1,135 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// Time-based one-time passwords (RFC 6238) with the parameters every
+// authenticator app supports: SHA-1, 6 digits, 30 second steps.
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept codes from one step before and after to allow for clock drift
+const DRIFT_STEPS = 1;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string) {
+  const clean = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+function hotp(secret: string, counter: number) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac("sha1", base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+export function currentTotpStep(now = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+// Returns the matched time step, or null when the code is wrong. Callers
+// store the step and pass it back as `lastUsedStep` so a code cannot be
+// replayed inside its validity window.
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number | null) {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const step = currentTotpStep();
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    const candidate = step + drift;
+    if (lastUsedStep != null && candidate <= lastUsedStep) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(hotp(secret, candidate)), Buffer.from(normalized))) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+export function totpAuthUrl(secret: string, accountName: string) {
+  const issuer = "Hacks4U Admin";
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+function normalizeRecoveryCode(code: string) {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+export function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Recovery codes are shown once as `xxxxx-xxxxx` and only their hashes are stored
+export function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Returns the remaining hashes if the code matched one of them, else null
+export function consumeRecoveryCode(code: string, hashes: string[]) {
+  const hash = hashRecoveryCode(code);
+  const index = hashes.indexOf(hash);
+  if (index === -1) {
+    return null;
+  }
+  return hashes.filter((_, i) => i !== index);
+}
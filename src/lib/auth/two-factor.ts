@@ -0,0 +1,25 @@
+import { type AdminUserRow, updateUserRow } from "@/lib/auth/users";
+import { consumeRecoveryCode, verifyTotp } from "@/lib/auth/totp";
+
+// Checks a code from the login form or a 2FA settings change. Accepts the
+// current TOTP code or one of the unused recovery codes, and records what
+// was used so neither can be replayed.
+export async function verifySecondFactor(user: AdminUserRow, code: string) {
+  if (!user.totp_enabled || !user.totp_secret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.totp_secret, code, user.totp_last_step);
+  if (step !== null) {
+    await updateUserRow(user.id, { totp_last_step: step });
+    return true;
+  }
+
+  const remaining = consumeRecoveryCode(code, user.recovery_codes ?? []);
+  if (remaining) {
+    await updateUserRow(user.id, { recovery_codes: remaining });
+    return true;
+  }
+
+  return false;
+}
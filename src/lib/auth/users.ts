@@ -0,0 +1,117 @@
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { hashPassword, safeEqual } from "@/lib/auth/password";
+import { type AdminUser, isRole } from "@/lib/auth/roles";
+
+export interface AdminUserRow {
+  id: string;
+  username: string;
+  display_name: string | null;
+  password_hash: string;
+  role: string;
+  disabled: boolean;
+  totp_enabled: boolean;
+  totp_secret: string | null;
+  totp_pending_secret: string | null;
+  totp_last_step: number | null;
+  recovery_codes: string[] | null;
+  created_at: string;
+}
+
+// Columns that are safe to send to the dashboard
+export const ADMIN_USER_COLUMNS = "id, username, display_name, role, disabled, totp_enabled, created_at";
+
+export function toAdminUser(row: Pick<AdminUserRow, "id" | "username" | "display_name" | "role">): AdminUser {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name || row.username,
+    // Unknown roles get the least privileged one
+    role: isRole(row.role) ? row.role : "author",
+  };
+}
+
+// Usernames are stored lowercase, so logins do not depend on case
+export async function findUserByUsername(username: string) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.ADMIN_USERS)
+    .select("*")
+    .eq("username", username.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as AdminUserRow | null;
+}
+
+export async function findUserById(id: string) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.ADMIN_USERS)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as AdminUserRow | null;
+}
+
+export async function updateUserRow(id: string, changes: Partial<AdminUserRow>) {
+  const { error } = await supabaseAdmin
+    .from(TABLES.ADMIN_USERS)
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// The first login on a fresh install uses the ADMIN_USERNAME/ADMIN_PASSWORD
+// pair from the environment. If no users exist yet and the pair matches, an
+// admin account is created from it and the env pair is never used again.
+export async function bootstrapAdminUser(username: string, password: string) {
+  const envUsername = process.env.ADMIN_USERNAME;
+  const envPassword = process.env.ADMIN_PASSWORD;
+  if (!envUsername || !envPassword) {
+    return null;
+  }
+  // Compare both so the timing does not depend on which one was wrong
+  const usernameMatches = safeEqual(username.toLowerCase(), envUsername.toLowerCase());
+  const passwordMatches = safeEqual(password, envPassword);
+  if (!usernameMatches || !passwordMatches) {
+    return null;
+  }
+
+  const { count, error: countError } = await supabaseAdmin
+    .from(TABLES.ADMIN_USERS)
+    .select("id", { count: "exact", head: true });
+
+  if (countError) {
+    throw countError;
+  }
+  if (count && count > 0) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.ADMIN_USERS)
+    .insert({
+      username: username.toLowerCase(),
+      display_name: username,
+      password_hash: await hashPassword(password),
+      role: "admin",
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as AdminUserRow;
+}
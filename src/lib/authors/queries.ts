@@ -0,0 +1,34 @@
+import { cache } from "react";
+import { supabase, TABLES } from "@/lib/supabase";
+import { AUTHOR_COLUMNS, type AuthorRow } from "@/lib/authors/types";
+
+// Public reads of author profiles with the anon key. Errors are thrown, the
+// pages show the error boundary rather than a profile missing its posts.
+
+export async function listAuthors() {
+  const { data, error } = await supabase.from(TABLES.AUTHORS).select(AUTHOR_COLUMNS).order("name");
+  if (error) {
+    throw error;
+  }
+
+  return data as AuthorRow[];
+}
+
+// Cached for the request, the metadata and the page both load it
+export const getAuthor = cache(async (slug: string) => {
+  const { data, error } = await supabase.from(TABLES.AUTHORS).select(AUTHOR_COLUMNS).eq("slug", slug).maybeSingle();
+  if (error) {
+    throw error;
+  }
+
+  return data as AuthorRow | null;
+});
+
+export const getAuthorById = cache(async (id: string) => {
+  const { data, error } = await supabase.from(TABLES.AUTHORS).select(AUTHOR_COLUMNS).eq("id", id).maybeSingle();
+  if (error) {
+    throw error;
+  }
+
+  return data as AuthorRow | null;
+});
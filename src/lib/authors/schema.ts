@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { imageUrl } from "@/lib/posts/schema";
+import { SLUG_MAX_LENGTH, SLUG_PATTERN } from "@/lib/posts/slug";
+
+const SOCIAL_LINK_LIMIT = 8;
+
+const profileUrl = z
+  .string()
+  .trim()
+  .url("Social links must be full URLs")
+  .refine((value) => /^https?:\/\//i.test(value), { message: "Social links must be http(s) URLs" });
+
+export const authorInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  // Left out to generate one from the name
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .max(SLUG_MAX_LENGTH, `Slug must be at most ${SLUG_MAX_LENGTH} characters`)
+    .regex(SLUG_PATTERN, "Slug may only contain lowercase letters, numbers and single dashes")
+    .optional(),
+  role: z.string().trim().max(100, "Role must be at most 100 characters").optional(),
+  bio: z.string().trim().max(2000, "Bio must be at most 2000 characters").default(""),
+  // An empty field removes the avatar
+  avatar: z.union([z.literal(""), imageUrl]).optional(),
+  // Private, an empty field stops the notifications
+  email: z
+    .union([z.literal(""), z.string().trim().toLowerCase().email("Enter a valid email address")])
+    .optional(),
+  social_links: z
+    .array(profileUrl)
+    .max(SOCIAL_LINK_LIMIT, `Use at most ${SOCIAL_LINK_LIMIT} social links`)
+    .default([]),
+});
+
+export const authorUpdateSchema = authorInputSchema
+  .partial()
+  .extend({
+    bio: z.string().trim().max(2000, "Bio must be at most 2000 characters").optional(),
+    social_links: z.array(profileUrl).max(SOCIAL_LINK_LIMIT, `Use at most ${SOCIAL_LINK_LIMIT} social links`).optional(),
+  })
+  .refine((value) => Object.values(value).some((field) => field !== undefined), {
+    message: "Nothing to update",
+  });
+
+export type AuthorInput = z.infer<typeof authorInputSchema>;
+export type AuthorUpdate = z.infer<typeof authorUpdateSchema>;
+
+// Maps validated input to authors columns, empty optional fields are
+// stored as null
+export function toAuthorColumns(input: AuthorUpdate) {
+  const columns: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (value !== undefined) {
+      columns[key] = (key === "role" || key === "avatar" || key === "email") && value === "" ? null : value;
+    }
+  }
+  return columns;
+}
@@ -0,0 +1,21 @@
+// Which site a social link on an author profile points at, from its host
+export type SocialSite = "LinkedIn" | "Twitter" | "GitHub" | "Facebook" | "Instagram" | "YouTube" | "Website";
+
+const HOSTS: [RegExp, SocialSite][] = [
+  [/(^|\.)linkedin\.com$/, "LinkedIn"],
+  [/(^|\.)(twitter|x)\.com$/, "Twitter"],
+  [/(^|\.)github\.com$/, "GitHub"],
+  [/(^|\.)(facebook|fb)\.com$/, "Facebook"],
+  [/(^|\.)instagram\.com$/, "Instagram"],
+  [/(^|\.)(youtube\.com|youtu\.be)$/, "YouTube"],
+];
+
+export function socialSite(url: string): SocialSite {
+  let host = "";
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return "Website";
+  }
+  return HOSTS.find(([pattern]) => pattern.test(host))?.[1] ?? "Website";
+}
@@ -0,0 +1,45 @@
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { AUTHOR_COLUMNS, type AuthorRow } from "@/lib/authors/types";
+
+export async function findAuthorById(id: string) {
+  const { data, error } = await supabaseAdmin.from(TABLES.AUTHORS).select(AUTHOR_COLUMNS).eq("id", id).maybeSingle();
+  if (error) {
+    throw error;
+  }
+
+  return data as AuthorRow | null;
+}
+
+// Where notifications for the author go, null when they have not set one
+export async function findAuthorEmail(id: string) {
+  const { data, error } = await supabaseAdmin.from(TABLES.AUTHORS).select("email").eq("id", id).maybeSingle();
+  if (error) {
+    throw error;
+  }
+
+  return (data?.email as string | null | undefined) ?? null;
+}
+
+// Posts keep a copy of their author's name for listings, feeds and search.
+// Puts the name of the picked author in the columns of a post save, false
+// when there is no such author.
+export async function applyPostAuthor(columns: Record<string, unknown>, authorId: string | null | undefined) {
+  if (!authorId) {
+    return true;
+  }
+  const author = await findAuthorById(authorId);
+  if (!author) {
+    return false;
+  }
+  columns.author = author.name;
+  return true;
+}
+
+// Keeps the copies in step after an author is renamed
+export async function renamePostAuthor(authorId: string, name: string) {
+  const { error } = await supabaseAdmin.from(TABLES.BLOG_POSTS).update({ author: name }).eq("author_id", authorId);
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,25 @@
+// A row of the authors table (see the schema in lib/supabase.ts)
+export interface AuthorRow {
+  id: string;
+  // /blog/author/<slug>
+  slug: string;
+  name: string;
+  // Job title, such as "Lead Developer"
+  role: string | null;
+  bio: string;
+  avatar: string | null;
+  // Profile URLs, the site is told from the address (see social.ts)
+  social_links: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export const AUTHOR_COLUMNS = "id, slug, name, role, bio, avatar, social_links, created_at, updated_at";
+
+// The profile as the dashboard sees it. email is private, it is where
+// notifications about comments on their posts go (see lib/comments/notify.ts).
+export interface AdminAuthorRow extends AuthorRow {
+  email: string | null;
+}
+
+export const ADMIN_AUTHOR_COLUMNS = `${AUTHOR_COLUMNS}, email`;
@@ -0,0 +1,97 @@
+import { findAuthorEmail } from "@/lib/authors/store";
+import type { CommentRow } from "@/lib/comments/types";
+import type { BlogPostRow } from "@/lib/posts/types";
+import { absoluteUrl, SITE_NAME } from "@/lib/site";
+
+// Emails the author of a post when a comment on it is waiting for
+// moderation. The site does not send email itself: notifiers hand the
+// message to whatever does. COMMENT_NOTIFY_WEBHOOK_URL posts it as JSON to
+// a webhook, such as an automation service or a function in front of an
+// email API, and registerCommentNotifier adds others.
+
+export interface CommentNotification {
+  // The author's notification email, or COMMENT_NOTIFY_EMAIL for posts
+  // without one
+  to: string;
+  subject: string;
+  text: string;
+  post: { id: string; slug: string; title: string; url: string };
+  comment: Pick<CommentRow, "id" | "parent_id" | "name" | "email" | "body" | "created_at">;
+  moderationUrl: string;
+}
+
+export type CommentNotifier = (notification: CommentNotification) => Promise<void>;
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+async function sendToWebhook(notification: CommentNotification) {
+  const url = process.env.COMMENT_NOTIFY_WEBHOOK_URL;
+  if (!url) {
+    return;
+  }
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ type: "comment.pending", ...notification }),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Comment webhook answered with status ${response.status}`);
+  }
+}
+
+const notifiers: CommentNotifier[] = [sendToWebhook];
+
+export function registerCommentNotifier(notifier: CommentNotifier) {
+  notifiers.push(notifier);
+}
+
+interface NewCommentInfo {
+  comment: CommentNotification["comment"];
+  post: Pick<BlogPostRow, "id" | "slug" | "title" | "author_id">;
+}
+
+async function buildNotification({ comment, post }: NewCommentInfo): Promise<CommentNotification | null> {
+  const authorEmail = post.author_id ? await findAuthorEmail(post.author_id) : null;
+  const to = authorEmail || process.env.COMMENT_NOTIFY_EMAIL;
+  if (!to) {
+    return null;
+  }
+
+  const url = absoluteUrl(`/blog/${post.slug}`);
+  const moderationUrl = absoluteUrl("/admin/dashboard");
+  return {
+    to,
+    subject: `[${SITE_NAME}] New comment on "${post.title}"`,
+    text: [
+      `${comment.name} (${comment.email}) ${comment.parent_id ? "replied" : "commented"} on "${post.title}":`,
+      "",
+      comment.body,
+      "",
+      `Post: ${url}`,
+      `Approve or reject it in the dashboard: ${moderationUrl}`,
+    ].join("\n"),
+    post: { id: post.id, slug: post.slug, title: post.title, url },
+    comment,
+    moderationUrl,
+  };
+}
+
+// Never throws, a comment is saved whether or not anyone hears about it
+export async function notifyNewComment(info: NewCommentInfo) {
+  try {
+    const notification = await buildNotification(info);
+    if (!notification) {
+      return;
+    }
+
+    const results = await Promise.allSettled(notifiers.map((notifier) => notifier(notification)));
+    for (const result of results) {
+      if (result.status === "rejected") {
+        console.error("Error sending comment notification:", result.reason);
+      }
+    }
+  } catch (error) {
+    console.error("Error sending comment notification:", error);
+  }
+}
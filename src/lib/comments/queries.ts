@@ -0,0 +1,46 @@
+import { supabase, TABLES } from "@/lib/supabase";
+import { type CommentThread, PUBLIC_COMMENT_COLUMNS, type PublicComment } from "@/lib/comments/types";
+
+// Public reads of comments with the anon key. The row level security policy
+// only lets approved comments through and the column grants leave out the
+// email addresses (see the schema in lib/supabase.ts).
+
+// Nests replies under the comments they answer. Replies to a comment that
+// is no longer approved go with it.
+export function buildCommentThreads(comments: PublicComment[]) {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of comments) {
+    threads.set(comment.id, { ...comment, replies: [] });
+  }
+
+  const roots: CommentThread[] = [];
+  for (const thread of threads.values()) {
+    if (!thread.parent_id) {
+      roots.push(thread);
+    } else {
+      threads.get(thread.parent_id)?.replies.push(thread);
+    }
+  }
+  return roots;
+}
+
+// Every visible comment counts, replies included
+export function countComments(threads: CommentThread[]): number {
+  return threads.reduce((total, thread) => total + 1 + countComments(thread.replies), 0);
+}
+
+// The approved comments on a post as threads, oldest first
+export async function listCommentThreads(postId: string) {
+  const { data, error } = await supabase
+    .from(TABLES.BLOG_COMMENTS)
+    .select(PUBLIC_COMMENT_COLUMNS)
+    .eq("post_id", postId)
+    .eq("status", "approved")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return buildCommentThreads(data as PublicComment[]);
+}
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { COMMENT_BODY_MAX_LENGTH, COMMENT_STATUSES } from "@/lib/comments/types";
+
+export const commentInputSchema = z.object({
+  post_id: z.string().uuid("Unknown post"),
+  // The comment being replied to, left out for a top level comment
+  parent_id: z.string().uuid("Unknown comment").nullish(),
+  name: z.string().trim().min(1, "Name is required").max(80, "Name must be at most 80 characters"),
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email("Enter a valid email address")
+    .max(200, "Email must be at most 200 characters"),
+  body: z
+    .string()
+    .trim()
+    .min(2, "Write a comment first")
+    .max(COMMENT_BODY_MAX_LENGTH, `Comments must be at most ${COMMENT_BODY_MAX_LENGTH} characters`),
+  // Hidden from people by the form, bots fill it in (see spam.ts)
+  website: z.string().optional(),
+});
+
+export type CommentInput = z.infer<typeof commentInputSchema>;
+
+export const commentModerationSchema = z.object({
+  status: z.enum(COMMENT_STATUSES),
+});
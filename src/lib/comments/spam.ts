@@ -0,0 +1,63 @@
+import type { CommentInput } from "@/lib/comments/schema";
+
+// Cheap checks that catch most comment spam before a moderator sees it.
+// Flagged comments are kept with status spam and the reasons, so anything
+// caught by mistake can still be approved from the dashboard.
+
+// Readers linking to a source or two is fine, spam tends to come with many
+export const MAX_COMMENT_LINKS = 2;
+
+// Matched case-insensitively anywhere in the name, email or body. More terms
+// can be added without a deploy through COMMENT_BLOCKLIST, comma separated.
+const DEFAULT_BLOCKLIST = [
+  "viagra",
+  "cialis",
+  "casino",
+  "betting tips",
+  "payday loan",
+  "forex signals",
+  "crypto giveaway",
+  "escort service",
+  "buy followers",
+  "buy backlinks",
+];
+
+const LINK_PATTERN = /https?:\/\/|www\.|\[url=|<a\s/gi;
+
+function blocklist() {
+  const extra = (process.env.COMMENT_BLOCKLIST ?? "")
+    .split(",")
+    .map((term) => term.trim().toLowerCase())
+    .filter(Boolean);
+  return [...DEFAULT_BLOCKLIST, ...extra];
+}
+
+export function countLinks(text: string) {
+  return text.match(LINK_PATTERN)?.length ?? 0;
+}
+
+// Why a comment looks like spam, empty when it does not
+export function spamReasons(comment: Pick<CommentInput, "name" | "email" | "body" | "website">) {
+  const reasons: string[] = [];
+
+  if (comment.website) {
+    reasons.push("Filled in the hidden website field");
+  }
+
+  const links = countLinks(comment.body);
+  if (links > MAX_COMMENT_LINKS) {
+    reasons.push(`${links} links`);
+  }
+  if (countLinks(comment.name) > 0) {
+    reasons.push("Link in the name");
+  }
+
+  const text = `${comment.name} ${comment.email} ${comment.body}`.toLowerCase();
+  for (const term of blocklist()) {
+    if (text.includes(term)) {
+      reasons.push(`Blocked term "${term}"`);
+    }
+  }
+
+  return reasons;
+}
@@ -0,0 +1,52 @@
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import type { CommentRow } from "@/lib/comments/types";
+
+// Comments one address may post inside RATE_WINDOW_MINUTES. Derived from
+// the stored comments, like the login throttling in lib/auth/rate-limit.ts.
+const RATE_LIMIT = 5;
+const RATE_WINDOW_MINUTES = 10;
+
+export async function findCommentById(id: string) {
+  const { data, error } = await supabaseAdmin.from(TABLES.BLOG_COMMENTS).select("*").eq("id", id).maybeSingle();
+  if (error) {
+    throw error;
+  }
+
+  return data as CommentRow | null;
+}
+
+export async function isCommentRateLimited(ip: string | null) {
+  if (!ip) {
+    return false;
+  }
+  const since = new Date(Date.now() - RATE_WINDOW_MINUTES * 60 * 1000).toISOString();
+  const { count, error } = await supabaseAdmin
+    .from(TABLES.BLOG_COMMENTS)
+    .select("id", { count: "exact", head: true })
+    .eq("ip", ip)
+    .gte("created_at", since);
+
+  if (error) {
+    throw error;
+  }
+
+  return (count ?? 0) >= RATE_LIMIT;
+}
+
+// The same text from the same address on the same post, such as a form
+// sent twice or a bot going around again
+export async function isDuplicateComment(comment: Pick<CommentRow, "post_id" | "email" | "body">) {
+  const { count, error } = await supabaseAdmin
+    .from(TABLES.BLOG_COMMENTS)
+    .select("id", { count: "exact", head: true })
+    .eq("post_id", comment.post_id)
+    .eq("email", comment.email)
+    .eq("body", comment.body);
+
+  if (error) {
+    throw error;
+  }
+
+  return (count ?? 0) > 0;
+}
@@ -0,0 +1,57 @@
+// Moderation states of a reader comment. Only approved ones are public:
+//
+//   pending   waiting for a moderator, where every new comment starts
+//   approved  shown under the post
+//   rejected  turned down by a moderator
+//   spam      caught by the spam checks (see spam.ts) or marked by hand
+
+export const COMMENT_STATUSES = ["pending", "approved", "rejected", "spam"] as const;
+
+export type CommentStatus = (typeof COMMENT_STATUSES)[number];
+
+export const COMMENT_STATUS_LABELS: Record<CommentStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  spam: "Spam",
+};
+
+// Top level comments have depth 0, replies to them 1 and replies to those
+// 2. Comments at this depth cannot be replied to.
+export const MAX_COMMENT_DEPTH = 2;
+
+export const COMMENT_BODY_MAX_LENGTH = 5000;
+
+export function isCommentStatus(value: unknown): value is CommentStatus {
+  return typeof value === "string" && (COMMENT_STATUSES as readonly string[]).includes(value);
+}
+
+// The columns anyone may read, the email address stays private
+export const PUBLIC_COMMENT_COLUMNS = "id, post_id, parent_id, depth, name, body, created_at";
+
+export interface PublicComment {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  depth: number;
+  name: string;
+  body: string;
+  created_at: string;
+}
+
+// A row of the blog_comments table (see the schema in lib/supabase.ts)
+export interface CommentRow extends PublicComment {
+  email: string;
+  status: CommentStatus;
+  // Why the spam checks flagged it, empty when they did not
+  spam_reasons: string[];
+  ip: string | null;
+  user_agent: string | null;
+  moderated_by: string | null;
+  moderated_at: string | null;
+}
+
+// A public comment with the approved replies to it, oldest first
+export interface CommentThread extends PublicComment {
+  replies: CommentThread[];
+}
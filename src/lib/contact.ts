@@ -0,0 +1,29 @@
+// How to reach the business. Shown on the contact page and used for the
+// LocalBusiness structured data, so the two never disagree.
+export const contactDetails = {
+  name: "Hacks4U",
+  address: "Hacks4u 11/13/4-C Tashkand Marg, Patrika Chauraha, Civil Lines, Prayagraj, Uttar Pradesh, 211011, India",
+  // The address above split into the parts schema.org expects
+  postalAddress: {
+    streetAddress: "11/13/4-C Tashkand Marg, Patrika Chauraha, Civil Lines",
+    addressLocality: "Prayagraj",
+    addressRegion: "Uttar Pradesh",
+    postalCode: "211011",
+    addressCountry: "IN",
+  },
+  phone: "+91 955 999 3758", // Using phone from original website
+  email: "contact@hacks4u.in", // Email that will receive inquiries
+  hours: "Mon - Fri: 9:00 AM - 6:00 PM",
+  // The hours above, 24 hour clock
+  openingHours: {
+    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
+    opens: "09:00",
+    closes: "18:00",
+  },
+  // The profiles linked from the footer
+  socialProfiles: [
+    "https://www.facebook.com/share/1AAjrkiQ1M/?mibextid=wwXIfr",
+    "https://www.instagram.com/hacks4u._?igsh=MTh0aXN3NTY3a3N5aQ==",
+    "https://www.linkedin.com/company/hacks4u-pvt-ltd/",
+  ],
+};
@@ -0,0 +1,83 @@
+import { Marked, type Tokens, type TokenizerAndRendererExtension } from "marked";
+
+// Posts are written in Markdown with a few MDX style components. Only the
+// components listed here are understood, they are expanded to plain HTML so
+// the same renderer works for the dashboard preview and the post page.
+export const MDX_COMPONENTS = ["Callout", "YouTube"] as const;
+
+export const CALLOUT_TYPES = ["info", "tip", "warning"] as const;
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// <Callout type="tip">Markdown in here</Callout>
+const callout: TokenizerAndRendererExtension = {
+  name: "callout",
+  level: "block",
+  start(src) {
+    return src.match(/^<Callout[\s>]/m)?.index;
+  },
+  tokenizer(src) {
+    const match = /^<Callout(?:\s+type="(\w+)")?\s*>([\s\S]*?)<\/Callout>[^\S\n]*(?:\n+|$)/.exec(src);
+    if (!match) {
+      return undefined;
+    }
+    const variant = (CALLOUT_TYPES as readonly string[]).includes(match[1]) ? match[1] : "info";
+    const token: Tokens.Generic = { type: "callout", raw: match[0], variant, tokens: [] };
+    this.lexer.blockTokens(match[2].trim(), token.tokens);
+    return token;
+  },
+  renderer(token) {
+    return `<aside class="callout callout-${token.variant}">${this.parser.parse(token.tokens ?? [])}</aside>\n`;
+  },
+};
+
+// <YouTube id="dQw4w9WgXcQ" />
+const youTube: TokenizerAndRendererExtension = {
+  name: "youtube",
+  level: "block",
+  start(src) {
+    return src.match(/^<YouTube\s/m)?.index;
+  },
+  tokenizer(src) {
+    const match = /^<YouTube\s+id="([\w-]{11})"(?:\s+title="([^"]*)")?\s*\/>[^\S\n]*(?:\n+|$)/.exec(src);
+    if (!match) {
+      return undefined;
+    }
+    return { type: "youtube", raw: match[0], videoId: match[1], title: match[2] || "YouTube video" };
+  },
+  renderer(token) {
+    return `<div class="video-embed"><iframe src="https://www.youtube-nocookie.com/embed/${token.videoId}" title="${escapeAttribute(token.title)}" loading="lazy" allow="accelerometer; encrypted-media; gyroscope; picture-in-picture" allowfullscreen></iframe></div>\n`;
+  },
+};
+
+const markdown = new Marked({ gfm: true, extensions: [callout, youTube] });
+
+export function renderMarkdown(source: string): string {
+  return markdown.parse(source, { async: false });
+}
+
+// The raw HTML written into a Markdown source, block and inline, in the
+// order it appears. Code blocks and code spans are not HTML.
+export function findRawHtml(source: string): string[] {
+  const raw: string[] = [];
+  markdown.walkTokens(markdown.lexer(source), (token) => {
+    if (token.type === "html") {
+      raw.push(token.raw);
+    }
+  });
+  return raw;
+}
+
+// Capitalised tags that are not in MDX_COMPONENTS, code is skipped so posts
+// can still show component examples
+export function findUnknownComponents(source: string): string[] {
+  const withoutCode = source.replace(/```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`/g, "");
+  const unknown = new Set<string>();
+  for (const match of withoutCode.matchAll(/<\/?([A-Z][A-Za-z0-9]*)\b/g)) {
+    if (!(MDX_COMPONENTS as readonly string[]).includes(match[1])) {
+      unknown.add(match[1]);
+    }
+  }
+  return Array.from(unknown);
+}
@@ -0,0 +1,46 @@
+import { findRawHtml, renderMarkdown } from "@/lib/content/markdown";
+import { type SanitizeResult, sanitizeHtml } from "@/lib/content/sanitize";
+
+// markdown is the authoring format, html is kept for posts written before
+// the editor understood Markdown
+export const CONTENT_FORMATS = ["markdown", "html"] as const;
+export type ContentFormat = (typeof CONTENT_FORMATS)[number];
+
+// The HTML that ends up on the page. Stored content is sanitized on save,
+// this runs the sanitizer again for rows that were written some other way.
+export function renderPostContent(content: string, format: string | null | undefined): SanitizeResult {
+  return sanitizeHtml(format === "html" ? content : renderMarkdown(content));
+}
+
+// Runs on save. HTML posts are stored sanitized. Markdown keeps its source,
+// only the raw HTML inside it is replaced with the sanitized version, and
+// anything else the renderer would produce unsafely (javascript: links
+// written as Markdown links) is reported and removed on render.
+export function sanitizePostContent(content: string, format: ContentFormat): { content: string; removed: string[] } {
+  if (format === "html") {
+    const { html, removed } = sanitizeHtml(content);
+    return { content: html, removed };
+  }
+
+  let cleaned = "";
+  let cursor = 0;
+  for (const raw of findRawHtml(content)) {
+    const index = content.indexOf(raw, cursor);
+    if (index === -1) {
+      continue;
+    }
+    const { html, removed } = sanitizeHtml(raw, { closeOpenTags: false });
+    if (removed.length > 0) {
+      // Keep the line break a block of HTML ends with so the Markdown
+      // around it still parses the same way
+      const trailing = /\s*$/.exec(raw)?.[0] ?? "";
+      cleaned += content.slice(cursor, index) + html.trimEnd() + trailing;
+    } else {
+      cleaned += content.slice(cursor, index + raw.length);
+    }
+    cursor = index + raw.length;
+  }
+  cleaned += content.slice(cursor);
+
+  return { content: cleaned, removed: renderPostContent(content, format).removed };
+}
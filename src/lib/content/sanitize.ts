@@ -0,0 +1,239 @@
+import { Parser } from "htmlparser2";
+
+// Allow-list HTML sanitizer for post content. Anything not listed here is
+// taken out, and every removal is reported so the editor can see what
+// happened to their post.
+
+export interface SanitizeResult {
+  html: string;
+  removed: string[];
+}
+
+const GLOBAL_ATTRIBUTES = ["id", "class", "title", "lang", "dir"];
+
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ["href", "target", "rel"],
+  abbr: [],
+  aside: [],
+  b: [],
+  blockquote: ["cite"],
+  br: [],
+  caption: [],
+  cite: [],
+  code: [],
+  dd: [],
+  del: [],
+  details: ["open"],
+  div: [],
+  dl: [],
+  dt: [],
+  em: [],
+  figcaption: [],
+  figure: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  i: [],
+  iframe: ["src", "title", "loading", "allow", "allowfullscreen", "width", "height"],
+  img: ["src", "alt", "width", "height", "loading"],
+  // Only the disabled checkboxes of Markdown task lists
+  input: ["type", "checked", "disabled"],
+  ins: [],
+  kbd: [],
+  li: ["value"],
+  mark: [],
+  ol: ["start", "reversed"],
+  p: [],
+  pre: [],
+  q: ["cite"],
+  s: [],
+  section: [],
+  small: [],
+  span: [],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ["colspan", "rowspan", "align"],
+  tfoot: [],
+  th: ["colspan", "rowspan", "align", "scope"],
+  thead: [],
+  time: ["datetime"],
+  tr: [],
+  u: [],
+  ul: [],
+};
+
+// Removed together with everything inside them. Other unknown tags are
+// unwrapped, their text stays.
+const DROP_WITH_CONTENT = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "object",
+  "embed",
+  "applet",
+  "frame",
+  "frameset",
+  "svg",
+  "math",
+  "form",
+  "button",
+  "select",
+  "textarea",
+  "link",
+  "meta",
+  "base",
+  "head",
+  "title",
+]);
+
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "wbr", "area", "col", "source", "track", "embed", "link", "meta", "base"]);
+
+const URL_ATTRIBUTES = new Set(["href", "src", "cite"]);
+
+const SAFE_PROTOCOLS = new Set(["http:", "https:", "mailto:", "tel:"]);
+
+// Video embeds, the same hosts the <YouTube> component uses
+const IFRAME_HOSTS = new Set(["www.youtube-nocookie.com", "www.youtube.com", "player.vimeo.com"]);
+
+const escapeText = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const escapeAttribute = (value: string) => escapeText(value).replace(/"/g, "&quot;");
+
+// The scheme of a URL attribute that is not allowed, null when it is fine
+function unsafeScheme(value: string) {
+  // Browsers ignore whitespace and control characters inside the scheme,
+  // "java\tscript:" is still javascript:
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: stripping them is the point
+  const compact = value.replace(/[\u0000- \u007f-\u009f]/g, "");
+  const scheme = /^[a-z][a-z0-9+.-]*:/i.exec(compact)?.[0].toLowerCase();
+  return scheme && !SAFE_PROTOCOLS.has(scheme) ? scheme : null;
+}
+
+function isAllowedIframe(src: string | undefined) {
+  if (!src) {
+    return false;
+  }
+  try {
+    const url = new URL(src);
+    return url.protocol === "https:" && IFRAME_HOSTS.has(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+// closeOpenTags: false leaves tags that are still open at the end of the
+// input unclosed, for sanitizing a fragment such as a single opening tag
+export function sanitizeHtml(input: string, { closeOpenTags = true } = {}): SanitizeResult {
+  const removed = new Map<string, number>();
+  const report = (item: string) => removed.set(item, (removed.get(item) || 0) + 1);
+
+  let html = "";
+  // Tags that were opened and how they were handled, so the matching close
+  // tag is treated the same way
+  const stack: { name: string; keep: boolean }[] = [];
+  let dropDepth = 0;
+  let ended = false;
+
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        if (dropDepth > 0) {
+          if (!VOID_TAGS.has(name)) {
+            dropDepth++;
+            stack.push({ name, keep: false });
+          }
+          return;
+        }
+
+        const allowed = ALLOWED_TAGS[name];
+        const blocked =
+          DROP_WITH_CONTENT.has(name) ||
+          (name === "iframe" && !isAllowedIframe(attribs.src)) ||
+          (name === "input" && attribs.type !== "checkbox");
+        if (blocked) {
+          report(name === "iframe" && attribs.src ? `<iframe> from ${attribs.src}` : `<${name}> element`);
+          if (!VOID_TAGS.has(name)) {
+            dropDepth = 1;
+            stack.push({ name, keep: false });
+          }
+          return;
+        }
+        if (!allowed) {
+          report(`<${name}> tag`);
+          if (!VOID_TAGS.has(name)) {
+            stack.push({ name, keep: false });
+          }
+          return;
+        }
+
+        let attributes = "";
+        for (const [attribute, value] of Object.entries(attribs)) {
+          if (attribute.startsWith("on")) {
+            report(`${attribute} handler on <${name}>`);
+            continue;
+          }
+          if (!allowed.includes(attribute) && !GLOBAL_ATTRIBUTES.includes(attribute)) {
+            report(`${attribute} attribute on <${name}>`);
+            continue;
+          }
+          const scheme = URL_ATTRIBUTES.has(attribute) ? unsafeScheme(value) : null;
+          if (scheme) {
+            report(`${scheme} URL in <${name} ${attribute}>`);
+            continue;
+          }
+          attributes += value === "" ? ` ${attribute}` : ` ${attribute}="${escapeAttribute(value)}"`;
+        }
+        if (name === "a" && attribs.target === "_blank" && !attribs.rel) {
+          attributes += ' rel="noopener noreferrer"';
+        }
+        if (name === "input") {
+          attributes += attribs.disabled === undefined ? " disabled" : "";
+        }
+
+        html += `<${name}${attributes}>`;
+        if (!VOID_TAGS.has(name)) {
+          stack.push({ name, keep: true });
+        }
+      },
+      ontext(text) {
+        if (dropDepth === 0) {
+          html += escapeText(text);
+        }
+      },
+      onclosetag(name, isImplied) {
+        if (VOID_TAGS.has(name)) {
+          return;
+        }
+        const open = stack.pop();
+        if (!open) {
+          return;
+        }
+        if (dropDepth > 0) {
+          dropDepth--;
+          return;
+        }
+        if (open.keep && !(ended && isImplied && !closeOpenTags)) {
+          html += `</${open.name}>`;
+        }
+      },
+    },
+    { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true },
+  );
+  parser.write(input);
+  ended = true;
+  parser.end();
+
+  return {
+    html,
+    removed: Array.from(removed, ([item, count]) => (count > 1 ? `${item} (${count}x)` : item)),
+  };
+}
@@ -0,0 +1,50 @@
+import { htmlToText } from "@/lib/content/text";
+import { slugify } from "@/lib/posts/slug";
+
+// The table of contents of a post, from the h2 and h3 headings of its
+// rendered HTML. h3s belong to the h2 before them.
+
+export interface TocHeading {
+  id: string;
+  text: string;
+  level: 2 | 3;
+}
+
+const HEADING_PATTERN = /<h([23])((?:\s[^>]*)?)>([\s\S]*?)<\/h\1>/g;
+const ID_PATTERN = /\sid="([^"]+)"/;
+
+// Gives every h2 and h3 an id to link to and lists them in order. Ids the
+// author wrote are kept, the others come from the heading text and are made
+// unique against every id in the content and reservedIds, the ids of the
+// rest of the page.
+export function addHeadingAnchors(html: string, reservedIds: string[] = []) {
+  const used = new Set(reservedIds);
+  for (const match of html.matchAll(/\sid="([^"]+)"/g)) {
+    used.add(match[1]);
+  }
+
+  const headings: TocHeading[] = [];
+  const anchored = html.replace(HEADING_PATTERN, (heading, level: string, attributes: string, inner: string) => {
+    const text = htmlToText(inner);
+    if (!text) {
+      return heading;
+    }
+
+    const authorId = ID_PATTERN.exec(attributes)?.[1];
+    if (authorId) {
+      headings.push({ id: authorId, text, level: level === "2" ? 2 : 3 });
+      return heading;
+    }
+
+    const base = slugify(text) || "section";
+    let id = base;
+    for (let n = 2; used.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    used.add(id);
+    headings.push({ id, text, level: level === "2" ? 2 : 3 });
+    return `<h${level}${attributes} id="${id}">${inner}</h${level}>`;
+  });
+
+  return { html: anchored, headings };
+}
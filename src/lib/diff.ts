@@ -0,0 +1,122 @@
+// Line based diff for the side-by-side revision view in the dashboard
+
+export type DiffLineType = "same" | "added" | "removed";
+
+export interface DiffCell {
+  number: number;
+  text: string;
+  type: DiffLineType;
+}
+
+// One row of a side-by-side view. A removed line sits next to the line that
+// replaced it, a side is null when there is nothing to show there.
+export interface DiffRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+// Above this many line pairs the LCS table gets too big to build in the
+// browser, the changed block is then shown as removed + added as a whole
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { type: DiffLineType; text: string };
+
+function lcsOps(before: string[], after: string[]): Op[] {
+  const n = before.length;
+  const m = after.length;
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...before.map((text) => ({ type: "removed" as const, text })),
+      ...after.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] is the LCS length of before[i:] and after[j:]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      ops.push({ type: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      ops.push({ type: "removed", text: before[i++] });
+    } else {
+      ops.push({ type: "added", text: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "removed", text: before[i++] });
+  while (j < m) ops.push({ type: "added", text: after[j++] });
+  return ops;
+}
+
+export function diffLines(before: string, after: string): DiffRow[] {
+  const beforeLines = before.split(/\r?\n/);
+  const afterLines = after.split(/\r?\n/);
+
+  // Only the part between the unchanged start and end needs the LCS table
+  let start = 0;
+  while (start < beforeLines.length && start < afterLines.length && beforeLines[start] === afterLines[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < beforeLines.length - start &&
+    end < afterLines.length - start &&
+    beforeLines[beforeLines.length - 1 - end] === afterLines[afterLines.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const ops: Op[] = [
+    ...beforeLines.slice(0, start).map((text) => ({ type: "same" as const, text })),
+    ...lcsOps(beforeLines.slice(start, beforeLines.length - end), afterLines.slice(start, afterLines.length - end)),
+    ...beforeLines.slice(beforeLines.length - end).map((text) => ({ type: "same" as const, text })),
+  ];
+
+  const rows: DiffRow[] = [];
+  let leftNumber = 0;
+  let rightNumber = 0;
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === "same") {
+      const { text } = ops[index++];
+      rows.push({
+        left: { number: ++leftNumber, text, type: "same" },
+        right: { number: ++rightNumber, text, type: "same" },
+      });
+      continue;
+    }
+
+    // Pair up a run of removed lines with the added lines that follow it
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].type !== "same") {
+      const op = ops[index++];
+      (op.type === "removed" ? removed : added).push(op.text);
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({
+        left: k < removed.length ? { number: ++leftNumber, text: removed[k], type: "removed" } : null,
+        right: k < added.length ? { number: ++rightNumber, text: added[k], type: "added" } : null,
+      });
+    }
+  }
+
+  return rows;
+}
+
+export function hasChanges(rows: DiffRow[]) {
+  return rows.some((row) => row.left?.type !== "same" || row.right?.type !== "same");
+}
@@ -0,0 +1,243 @@
+import { renderPostContent } from "@/lib/content/render";
+import { findCategory, findTag, listRecentLivePosts } from "@/lib/posts/queries";
+import type { BlogPostRow } from "@/lib/posts/types";
+import { SITE_DESCRIPTION, SITE_NAME, absoluteUrl } from "@/lib/site";
+import { escapeXml } from "@/lib/xml";
+
+// RSS 2.0, Atom and JSON Feed versions of the blog. Every feed lives next to
+// the page it follows: /feed.xml for the whole blog,
+// /blog/category/<slug>/feed.xml for one category and
+// /blog/tag/<slug>/feed.xml for one tag.
+
+export const FEED_FORMATS = {
+  rss: { file: "feed.xml", contentType: "application/rss+xml" },
+  atom: { file: "atom.xml", contentType: "application/atom+xml" },
+  json: { file: "feed.json", contentType: "application/feed+json" },
+} as const;
+
+export type FeedFormat = keyof typeof FEED_FORMATS;
+
+const FEED_ITEM_LIMIT = 50;
+
+export interface Feed {
+  title: string;
+  description: string;
+  // The page the feed follows
+  pagePath: string;
+  // Where the feed files are, "" for the site root
+  basePath: string;
+  posts: BlogPostRow[];
+}
+
+// The feeds of a page, for the alternates of its metadata
+export function feedAlternates(basePath = "", title = `${SITE_NAME} Blog`) {
+  return {
+    "application/rss+xml": [{ url: `${basePath}/${FEED_FORMATS.rss.file}`, title }],
+    "application/atom+xml": [{ url: `${basePath}/${FEED_FORMATS.atom.file}`, title }],
+    "application/feed+json": [{ url: `${basePath}/${FEED_FORMATS.json.file}`, title }],
+  };
+}
+
+export async function getBlogFeed(): Promise<Feed> {
+  return {
+    title: `${SITE_NAME} Blog`,
+    description: SITE_DESCRIPTION,
+    pagePath: "/blog",
+    basePath: "",
+    posts: await listRecentLivePosts({ limit: FEED_ITEM_LIMIT }),
+  };
+}
+
+// null when no live post uses the category
+export async function getCategoryFeed(slug: string): Promise<Feed | null> {
+  const category = await findCategory(slug);
+  if (!category) {
+    return null;
+  }
+
+  return {
+    title: `${category.name} | ${SITE_NAME} Blog`,
+    description: `Articles about ${category.name} from the ${SITE_NAME} blog.`,
+    pagePath: `/blog/category/${category.slug}`,
+    basePath: `/blog/category/${category.slug}`,
+    posts: await listRecentLivePosts({ limit: FEED_ITEM_LIMIT, categories: category.names }),
+  };
+}
+
+// null when no live post has the tag
+export async function getTagFeed(slug: string): Promise<Feed | null> {
+  const tag = await findTag(slug);
+  if (!tag) {
+    return null;
+  }
+
+  return {
+    title: `${tag.name} | ${SITE_NAME} Blog`,
+    description: `Articles tagged ${tag.name} on the ${SITE_NAME} blog.`,
+    pagePath: `/blog/tag/${tag.slug}`,
+    basePath: `/blog/tag/${tag.slug}`,
+    posts: await listRecentLivePosts({ limit: FEED_ITEM_LIMIT, tags: tag.names }),
+  };
+}
+
+export function feedResponse(format: FeedFormat, feed: Feed) {
+  const body = format === "rss" ? renderRss(feed) : format === "atom" ? renderAtom(feed) : renderJsonFeed(feed);
+  return new Response(body, {
+    headers: { "Content-Type": `${FEED_FORMATS[format].contentType}; charset=utf-8` },
+  });
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  avif: "image/avif",
+  gif: "image/gif",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  png: "image/png",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+};
+
+function imageType(url: string) {
+  const extension = /\.(\w+)(?:[?#].*)?$/.exec(url)?.[1].toLowerCase() ?? "";
+  return IMAGE_TYPES[extension] ?? "image/jpeg";
+}
+
+// The URL attributes the sanitizer lets through, always written as name="value"
+const URL_ATTRIBUTE = /\s(href|src|cite)="([^"]*)"/g;
+const URL_SCHEME = /^[a-z][a-z\d+.-]*:/i;
+
+// Feed readers show the content away from the site, so links, /uploads/
+// images and #anchors have to point back at the post page. Entities such as
+// &amp; survive the URL parser as they are, the value stays escaped.
+function absoluteContentUrls(html: string, pageUrl: string) {
+  return html.replace(URL_ATTRIBUTE, (attribute, name: string, value: string) => {
+    if (URL_SCHEME.test(value)) {
+      return attribute;
+    }
+    try {
+      return ` ${name}="${new URL(value, pageUrl).toString()}"`;
+    } catch {
+      return attribute;
+    }
+  });
+}
+
+// What every format needs of a post, with absolute URLs
+function toItem(post: BlogPostRow) {
+  const url = absoluteUrl(`/blog/${post.slug}`);
+  return {
+    url,
+    title: post.title,
+    summary: post.excerpt,
+    html: absoluteContentUrls(renderPostContent(post.content, post.content_format).html, url),
+    image: post.image ? absoluteUrl(post.image) : null,
+    author: post.author,
+    categories: post.categories,
+    tags: post.tags,
+    published: new Date(post.publish_at ?? post.date),
+    updated: new Date(post.updated_at),
+  };
+}
+
+// Newest change of any post, so readers can tell the feed changed
+function lastUpdated(items: ReturnType<typeof toItem>[]) {
+  if (items.length === 0) {
+    return new Date();
+  }
+  return items.reduce((latest, item) => (item.updated > latest ? item.updated : latest), items[0].updated);
+}
+
+function renderRss(feed: Feed) {
+  const items = feed.posts.map(toItem);
+  const entries = items.map((item) =>
+    [
+      "<item>",
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.url)}</link>`,
+      `<guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+      `<pubDate>${item.published.toUTCString()}</pubDate>`,
+      `<dc:creator>${escapeXml(item.author)}</dc:creator>`,
+      ...item.categories.map((category) => `<category>${escapeXml(category)}</category>`),
+      `<description>${escapeXml(item.summary)}</description>`,
+      `<content:encoded>${escapeXml(item.html)}</content:encoded>`,
+      // The file size is not known, 0 is what readers expect then
+      item.image ? `<enclosure url="${escapeXml(item.image)}" length="0" type="${imageType(item.image)}"/>` : "",
+      "</item>",
+    ]
+      .filter(Boolean)
+      .join("\n"),
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<channel>
+<title>${escapeXml(feed.title)}</title>
+<link>${escapeXml(absoluteUrl(feed.pagePath))}</link>
+<description>${escapeXml(feed.description)}</description>
+<language>en-us</language>
+<lastBuildDate>${lastUpdated(items).toUTCString()}</lastBuildDate>
+<atom:link href="${escapeXml(absoluteUrl(`${feed.basePath}/${FEED_FORMATS.rss.file}`))}" rel="self" type="${FEED_FORMATS.rss.contentType}"/>
+${entries.join("\n")}
+</channel>
+</rss>
+`;
+}
+
+function renderAtom(feed: Feed) {
+  const items = feed.posts.map(toItem);
+  const entries = items.map((item) =>
+    [
+      "<entry>",
+      `<id>${escapeXml(item.url)}</id>`,
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      item.image ? `<link rel="enclosure" type="${imageType(item.image)}" href="${escapeXml(item.image)}"/>` : "",
+      `<published>${item.published.toISOString()}</published>`,
+      `<updated>${item.updated.toISOString()}</updated>`,
+      `<author><name>${escapeXml(item.author)}</name></author>`,
+      ...item.categories.map((category) => `<category term="${escapeXml(category)}"/>`),
+      `<summary>${escapeXml(item.summary)}</summary>`,
+      `<content type="html">${escapeXml(item.html)}</content>`,
+      "</entry>",
+    ]
+      .filter(Boolean)
+      .join("\n"),
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">
+<id>${escapeXml(absoluteUrl(feed.pagePath))}</id>
+<title>${escapeXml(feed.title)}</title>
+<subtitle>${escapeXml(feed.description)}</subtitle>
+<link rel="alternate" type="text/html" href="${escapeXml(absoluteUrl(feed.pagePath))}"/>
+<link rel="self" type="${FEED_FORMATS.atom.contentType}" href="${escapeXml(absoluteUrl(`${feed.basePath}/${FEED_FORMATS.atom.file}`))}"/>
+<updated>${lastUpdated(items).toISOString()}</updated>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+// https://www.jsonfeed.org/version/1.1/
+function renderJsonFeed(feed: Feed) {
+  const items = feed.posts.map(toItem);
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: absoluteUrl(feed.pagePath),
+    feed_url: absoluteUrl(`${feed.basePath}/${FEED_FORMATS.json.file}`),
+    description: feed.description,
+    language: "en",
+    items: items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.html,
+      image: item.image ?? undefined,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: [{ name: item.author }],
+      tags: Array.from(new Set([...item.categories, ...item.tags])),
+    })),
+  });
+}
@@ -0,0 +1,80 @@
+import sharp from "sharp";
+import { COVER_WIDTH, MIN_COVER_HEIGHT, MIN_COVER_WIDTH } from "@/lib/media/types";
+
+// What sharp may decode from an upload, the first frame of an animation
+const INPUT_FORMATS = new Set(["jpeg", "png", "webp", "avif", "heif", "gif", "tiff"]);
+
+const WEBP_QUALITY = 80;
+const AVIF_QUALITY = 55;
+// The placeholder is scaled up and blurred by the browser, a handful of
+// pixels is enough
+const PLACEHOLDER_WIDTH = 16;
+const PLACEHOLDER_HEIGHT = 9;
+
+export interface ProcessedCover {
+  webp: Buffer;
+  avif: Buffer;
+  placeholder: string;
+  width: number;
+  height: number;
+}
+
+// The largest 16:9 size that fits in the image, at most COVER_WIDTH wide.
+// Widths are kept to multiples of 16 so the height is a whole number.
+function coverSize(width: number, height: number) {
+  const fitting = Math.min(width, (height * 16) / 9, COVER_WIDTH);
+  const coverWidth = Math.floor(fitting / 16) * 16;
+  return { width: coverWidth, height: (coverWidth * 9) / 16 };
+}
+
+// Turns an uploaded image into a cover: turned upright, cropped to 16:9
+// around the most interesting part and encoded as WebP and AVIF, with a
+// blur placeholder. error is for the uploader when the file will not do.
+export async function processCoverImage(
+  data: Buffer,
+): Promise<{ error: string; cover: null } | { error: null; cover: ProcessedCover }> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch {
+    return { error: "That file is not an image", cover: null };
+  }
+  if (!metadata.format || !INPUT_FORMATS.has(metadata.format)) {
+    return { error: "Upload a JPEG, PNG, WebP, AVIF or GIF image", cover: null };
+  }
+
+  // Photos from phones are often stored sideways with an EXIF orientation
+  const { width, height } = metadata.autoOrient;
+  if (width < MIN_COVER_WIDTH || height < MIN_COVER_HEIGHT) {
+    return {
+      error: `Cover images must be at least ${MIN_COVER_WIDTH}×${MIN_COVER_HEIGHT} pixels, this one is ${width}×${height}`,
+      cover: null,
+    };
+  }
+
+  // Cropped once, every output is encoded from the same pixels
+  const size = coverSize(width, height);
+  const { data: pixels, info } = await sharp(data)
+    .autoOrient()
+    .resize(size.width, size.height, { fit: "cover", position: sharp.strategy.attention })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const cropped = () => sharp(pixels, { raw: { width: info.width, height: info.height, channels: info.channels } });
+
+  const [webp, avif, placeholder] = await Promise.all([
+    cropped().webp({ quality: WEBP_QUALITY }).toBuffer(),
+    cropped().avif({ quality: AVIF_QUALITY }).toBuffer(),
+    cropped().resize(PLACEHOLDER_WIDTH, PLACEHOLDER_HEIGHT).webp({ quality: 50 }).toBuffer(),
+  ]);
+
+  return {
+    error: null,
+    cover: {
+      webp,
+      avif,
+      placeholder: `data:image/webp;base64,${placeholder.toString("base64")}`,
+      width: info.width,
+      height: info.height,
+    },
+  };
+}
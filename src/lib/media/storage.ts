@@ -0,0 +1,75 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { MEDIA_STORAGES, type MediaStorageKind } from "@/lib/media/types";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+// Where uploaded files go. MEDIA_STORAGE picks one: supabase for the public
+// Supabase Storage bucket named in MEDIA_BUCKET, local for public/uploads.
+// Development uses local unless told otherwise, files added to public/
+// after a build are not served, so production needs supabase.
+
+export interface MediaStorage {
+  kind: MediaStorageKind;
+  // Stores the file and returns the URL it is served from
+  put(filePath: string, data: Buffer, contentType: string): Promise<string>;
+  remove(filePaths: string[]): Promise<void>;
+}
+
+const DEFAULT_BUCKET = "media";
+// Every upload gets new file names, so browsers may keep them for good
+const CACHE_CONTROL_SECONDS = 60 * 60 * 24 * 365;
+
+const bucketName = () => process.env.MEDIA_BUCKET || DEFAULT_BUCKET;
+
+const supabaseStorage: MediaStorage = {
+  kind: "supabase",
+  async put(filePath, data, contentType) {
+    const bucket = supabaseAdmin.storage.from(bucketName());
+    const { error } = await bucket.upload(filePath, data, {
+      contentType,
+      cacheControl: String(CACHE_CONTROL_SECONDS),
+      upsert: false,
+    });
+    if (error) {
+      throw error;
+    }
+    return bucket.getPublicUrl(filePath).data.publicUrl;
+  },
+  async remove(filePaths) {
+    const { error } = await supabaseAdmin.storage.from(bucketName()).remove(filePaths);
+    if (error) {
+      throw error;
+    }
+  },
+};
+
+const LOCAL_DIRECTORY = path.join(process.cwd(), "public", "uploads");
+
+const localDiskStorage: MediaStorage = {
+  kind: "local",
+  async put(filePath, data) {
+    const target = path.join(LOCAL_DIRECTORY, filePath);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, data, { flag: "wx" });
+    return `/uploads/${filePath}`;
+  },
+  async remove(filePaths) {
+    await Promise.all(filePaths.map((filePath) => rm(path.join(LOCAL_DIRECTORY, filePath), { force: true })));
+  },
+};
+
+const STORAGES: Record<MediaStorageKind, MediaStorage> = {
+  supabase: supabaseStorage,
+  local: localDiskStorage,
+};
+
+export function getMediaStorage(kind?: MediaStorageKind): MediaStorage {
+  if (kind) {
+    return STORAGES[kind];
+  }
+  const configured = process.env.MEDIA_STORAGE;
+  if (configured && (MEDIA_STORAGES as readonly string[]).includes(configured)) {
+    return STORAGES[configured as MediaStorageKind];
+  }
+  return STORAGES[process.env.NODE_ENV === "development" ? "local" : "supabase"];
+}
@@ -0,0 +1,94 @@
+import type { AdminUser } from "@/lib/auth/roles";
+import { processCoverImage } from "@/lib/media/process";
+import { getMediaStorage } from "@/lib/media/storage";
+import type { MediaAssetRow } from "@/lib/media/types";
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+export async function findMediaAsset(id: string) {
+  const { data, error } = await supabaseAdmin.from(TABLES.MEDIA_ASSETS).select("*").eq("id", id).maybeSingle();
+  if (error) {
+    throw error;
+  }
+
+  return data as MediaAssetRow | null;
+}
+
+// Processes an uploaded cover, stores its files and records the asset.
+// error is for the uploader when the image will not do, anything else
+// throws.
+export async function createCoverAsset(
+  data: Buffer,
+  originalName: string | null,
+  user: AdminUser,
+): Promise<{ error: string; asset: null } | { error: null; asset: MediaAssetRow }> {
+  const processed = await processCoverImage(data);
+  if (processed.error !== null) {
+    return { error: processed.error, asset: null };
+  }
+  const { cover } = processed;
+
+  const id = crypto.randomUUID();
+  const storage = getMediaStorage();
+  const webpPath = `covers/${id}.webp`;
+  const avifPath = `covers/${id}.avif`;
+  try {
+    const url = await storage.put(webpPath, cover.webp, "image/webp");
+    const avifUrl = await storage.put(avifPath, cover.avif, "image/avif");
+
+    const { data: asset, error } = await supabaseAdmin
+      .from(TABLES.MEDIA_ASSETS)
+      .insert({
+        id,
+        storage: storage.kind,
+        paths: [webpPath, avifPath],
+        url,
+        avif_url: avifUrl,
+        placeholder: cover.placeholder,
+        width: cover.width,
+        height: cover.height,
+        original_name: originalName,
+        size_bytes: cover.webp.length + cover.avif.length,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return { error: null, asset: asset as MediaAssetRow };
+  } catch (error) {
+    // Nothing refers to the files without the row
+    await storage
+      .remove([webpPath, avifPath])
+      .catch((removeError) => console.error("Error removing uploaded files:", removeError));
+    throw error;
+  }
+}
+
+// Posts keep a copy of their cover's URLs and placeholder for listings,
+// feeds and search. Puts those of the picked upload in the columns of a post
+// save, false when there is no such upload. A cover given as a URL, without
+// an upload, clears them.
+export async function applyCoverImage(columns: Record<string, unknown>, assetId: string | null | undefined) {
+  if (assetId === undefined && columns.image === undefined) {
+    return true;
+  }
+  if (!assetId) {
+    columns.image_asset_id = null;
+    columns.image_avif = null;
+    columns.image_placeholder = null;
+    return true;
+  }
+
+  const asset = await findMediaAsset(assetId);
+  if (!asset) {
+    return false;
+  }
+  columns.image_asset_id = asset.id;
+  columns.image = asset.url;
+  columns.image_avif = asset.avif_url;
+  columns.image_placeholder = asset.placeholder;
+  return true;
+}
@@ -0,0 +1,36 @@
+// Covers are cropped to 16:9 and at most this size, smaller uploads keep
+// their own width so they are not blown up
+export const COVER_WIDTH = 1600;
+export const COVER_HEIGHT = 900;
+export const MIN_COVER_WIDTH = 800;
+export const MIN_COVER_HEIGHT = 450;
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// What the upload field offers, sharp reads all of them
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/avif", "image/gif"];
+
+export const MEDIA_STORAGES = ["supabase", "local"] as const;
+export type MediaStorageKind = (typeof MEDIA_STORAGES)[number];
+
+// A row of the media_assets table (see the schema in lib/supabase.ts)
+export interface MediaAssetRow {
+  id: string;
+  storage: MediaStorageKind;
+  // Where the files are in the storage, to remove them again
+  paths: string[];
+  // The WebP version, what posts use as their image
+  url: string;
+  avif_url: string;
+  // A tiny blurred WebP as a data URL, shown while the cover loads
+  placeholder: string;
+  width: number;
+  height: number;
+  original_name: string | null;
+  size_bytes: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+// What the dashboard gets back from an upload
+export type UploadedCover = Pick<MediaAssetRow, "id" | "url" | "avif_url" | "placeholder" | "width" | "height">;
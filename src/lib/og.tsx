@@ -0,0 +1,95 @@
+import { ImageResponse } from "next/og";
+import { SITE_NAME } from "@/lib/site";
+
+// Share cards for Open Graph and Twitter previews, 1200x630 like the
+// platforms expect. Colours are the brand palette from tailwind.config.js.
+export const SHARE_CARD_SIZE = { width: 1200, height: 630 };
+
+const BRAND_DARK = "#120a32";
+const BRAND_TEAL = "#48b899";
+const BRAND_PURPLE = "#a09cac";
+
+interface ShareCard {
+  // Small line above the title, the category of a post
+  label: string;
+  title: string;
+  // Shown along the bottom, such as the author and read time
+  details: string[];
+}
+
+// Long titles get a smaller font so they still fit in three lines or so
+function titleSize(title: string) {
+  if (title.length > 90) {
+    return 52;
+  }
+  if (title.length > 50) {
+    return 64;
+  }
+  return 76;
+}
+
+export function shareCardResponse({ label, title, details }: ShareCard) {
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: "64px 72px",
+        backgroundColor: BRAND_DARK,
+        backgroundImage: `radial-gradient(circle at 100% 0%, ${BRAND_TEAL}55 0%, transparent 45%)`,
+        borderLeft: `16px solid ${BRAND_TEAL}`,
+        color: "white",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+        <div style={{ display: "flex", fontSize: 34, fontWeight: 700 }}>
+          <span>{SITE_NAME}</span>
+          <span style={{ color: BRAND_TEAL, marginLeft: 12 }}>Blog</span>
+        </div>
+        {label && (
+          <div
+            style={{
+              display: "flex",
+              padding: "10px 24px",
+              borderRadius: 999,
+              backgroundColor: `${BRAND_TEAL}33`,
+              color: BRAND_TEAL,
+              fontSize: 28,
+            }}
+          >
+            {label}
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: "flex", fontSize: titleSize(title), fontWeight: 700, lineHeight: 1.15 }}>{title}</div>
+
+      <div style={{ display: "flex", alignItems: "center", fontSize: 30, color: BRAND_PURPLE }}>
+        {details.map((detail, index) => (
+          <div key={detail} style={{ display: "flex", alignItems: "center" }}>
+            {index > 0 && <span style={{ color: BRAND_TEAL, margin: "0 20px" }}>•</span>}
+            <span>{detail}</span>
+          </div>
+        ))}
+      </div>
+    </div>,
+    SHARE_CARD_SIZE,
+  );
+}
+
+// Where the card of a post is, the version makes social networks fetch it
+// again after the post changes
+export function postShareImagePath(slug: string, updatedAt: string) {
+  return `/og/blog/${slug}?v=${new Date(updatedAt).getTime()}`;
+}
+
+export function categoryShareImagePath(slug: string) {
+  return `/og/category/${slug}`;
+}
+
+export function tagShareImagePath(slug: string) {
+  return `/og/tag/${slug}`;
+}
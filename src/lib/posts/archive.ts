@@ -0,0 +1,93 @@
+import type { Metadata } from "next";
+import { cache } from "react";
+import { feedAlternates } from "@/lib/feed";
+import { SHARE_CARD_SIZE, categoryShareImagePath, tagShareImagePath } from "@/lib/og";
+import { BLOG_PAGE_SIZE, categoryHref, tagHref } from "@/lib/posts/listing";
+import { type PostTerm, findCategory, findTag, listLivePostsPage } from "@/lib/posts/queries";
+import type { PostSummary } from "@/lib/posts/types";
+import { SITE_NAME } from "@/lib/site";
+
+// The archive pages of one category, /blog/category/<slug>, and of one tag,
+// /blog/tag/<slug>. Newest posts first, BLOG_PAGE_SIZE to a page.
+
+export type ArchiveKind = "category" | "tag";
+
+export interface Archive {
+  kind: ArchiveKind;
+  term: PostTerm;
+  title: string;
+  description: string;
+  // Where the archive and its feeds are
+  basePath: string;
+  page: number;
+  totalPages: number;
+  posts: PostSummary[];
+}
+
+// null when no live post uses the category or tag, or the page is past the
+// last one. Cached for the request, the metadata and the page both load it.
+export const loadArchive = cache(async (kind: ArchiveKind, slug: string, page: number): Promise<Archive | null> => {
+  const term = kind === "category" ? await findCategory(slug) : await findTag(slug);
+  if (!term) {
+    return null;
+  }
+
+  const { posts, total } = await listLivePostsPage({
+    page,
+    pageSize: BLOG_PAGE_SIZE,
+    ...(kind === "category" ? { categories: term.names } : { tags: term.names }),
+  });
+  const totalPages = Math.max(1, Math.ceil(total / BLOG_PAGE_SIZE));
+  if (page > totalPages) {
+    return null;
+  }
+
+  return {
+    kind,
+    term,
+    title: kind === "category" ? `${term.name} Articles` : `Articles Tagged "${term.name}"`,
+    description:
+      kind === "category"
+        ? `Articles about ${term.name} from the ${SITE_NAME} blog.`
+        : `Articles tagged ${term.name} on the ${SITE_NAME} blog.`,
+    basePath: `/blog/${kind}/${term.slug}`,
+    page,
+    totalPages,
+    posts,
+  };
+});
+
+export function archiveHref(archive: Pick<Archive, "kind" | "term">, page: number) {
+  return archive.kind === "category" ? categoryHref(archive.term.name, page) : tagHref(archive.term.name, page);
+}
+
+export function archiveMetadata(archive: Archive): Metadata {
+  const title = archive.page > 1 ? `${archive.title} - Page ${archive.page}` : archive.title;
+  const url = archiveHref(archive, archive.page);
+  const image =
+    archive.kind === "category" ? categoryShareImagePath(archive.term.slug) : tagShareImagePath(archive.term.slug);
+  const images = [{ url: image, ...SHARE_CARD_SIZE, alt: archive.term.name }];
+
+  return {
+    title,
+    description: archive.description,
+    alternates: {
+      canonical: url,
+      types: feedAlternates(archive.basePath, `${archive.term.name} | ${SITE_NAME} Blog`),
+    },
+    openGraph: {
+      type: "website",
+      url,
+      siteName: SITE_NAME,
+      title,
+      description: archive.description,
+      images,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description: archive.description,
+      images,
+    },
+  };
+}
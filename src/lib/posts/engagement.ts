@@ -0,0 +1,138 @@
+import { createHash } from "node:crypto";
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { REACTIONS, type ReactionCounts, type ReactionKey } from "@/lib/posts/reactions";
+import { isUuid } from "@/lib/posts/slug";
+import { isLive } from "@/lib/posts/status";
+
+// Views and reactions are a row per reader in their own tables. The totals
+// on blog_posts are counted again from those rows after every change rather
+// than incremented, so requests at the same time cannot lose a count and a
+// total that got out of step is fixed by the next change.
+
+// Views one address may add inside VIEW_RATE_WINDOW_MINUTES, across all
+// posts. Session ids come from the browser, this keeps a script making up
+// new ones from inflating the counts.
+const VIEW_RATE_LIMIT = 30;
+const VIEW_RATE_WINDOW_MINUTES = 10;
+
+// Views keep a hash of the address rather than the address itself
+export function hashViewerIp(ip: string | null) {
+  return ip ? createHash("sha256").update(ip).digest("hex") : null;
+}
+
+async function isViewRateLimited(ipHash: string | null) {
+  if (!ipHash) {
+    return false;
+  }
+  const since = new Date(Date.now() - VIEW_RATE_WINDOW_MINUTES * 60 * 1000).toISOString();
+  const { count, error } = await supabaseAdmin
+    .from(TABLES.BLOG_POST_VIEWS)
+    .select("post_id", { count: "exact", head: true })
+    .eq("ip_hash", ipHash)
+    .gte("created_at", since);
+
+  if (error) {
+    throw error;
+  }
+
+  return (count ?? 0) >= VIEW_RATE_LIMIT;
+}
+
+export async function isLivePostId(id: string) {
+  if (!isUuid(id)) {
+    return false;
+  }
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.BLOG_POSTS)
+    .select("status, publish_at")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return !!data && isLive(data);
+}
+
+async function updateCounts(postId: string, columns: { view_count?: number; reaction_counts?: ReactionCounts }) {
+  // updated_at is left alone, it is when the post itself last changed
+  const { error } = await supabaseAdmin.from(TABLES.BLOG_POSTS).update(columns).eq("id", postId);
+  if (error) {
+    throw error;
+  }
+}
+
+// Counts the view once per session. recorded is false for a session that
+// had already viewed the post and for an address over the rate limit.
+export async function recordPostView(postId: string, sessionId: string, ipHash: string | null) {
+  if (await isViewRateLimited(ipHash)) {
+    return { recorded: false };
+  }
+
+  const { error } = await supabaseAdmin
+    .from(TABLES.BLOG_POST_VIEWS)
+    .insert({ post_id: postId, session_id: sessionId, ip_hash: ipHash });
+  // 23505 is the primary key, this session has been counted
+  if (error?.code === "23505") {
+    return { recorded: false };
+  }
+  if (error) {
+    throw error;
+  }
+
+  const { count, error: countError } = await supabaseAdmin
+    .from(TABLES.BLOG_POST_VIEWS)
+    .select("post_id", { count: "exact", head: true })
+    .eq("post_id", postId);
+
+  if (countError) {
+    throw countError;
+  }
+
+  await updateCounts(postId, { view_count: count ?? 0 });
+  return { recorded: true, views: count ?? 0 };
+}
+
+async function countReactions(postId: string) {
+  const results = await Promise.all(
+    REACTIONS.map(({ key }) =>
+      supabaseAdmin
+        .from(TABLES.BLOG_POST_REACTIONS)
+        .select("post_id", { count: "exact", head: true })
+        .eq("post_id", postId)
+        .eq("reaction", key),
+    ),
+  );
+
+  const counts: ReactionCounts = {};
+  for (const [index, { key }] of REACTIONS.entries()) {
+    const { count, error } = results[index];
+    if (error) {
+      throw error;
+    }
+    if (count) {
+      counts[key] = count;
+    }
+  }
+  return counts;
+}
+
+// Adds or takes back a reader's reaction, returns the post's new counts
+export async function setPostReaction(postId: string, readerId: string, reaction: ReactionKey, active: boolean) {
+  const row = { post_id: postId, reader_id: readerId, reaction };
+  const { error } = active
+    ? await supabaseAdmin
+        .from(TABLES.BLOG_POST_REACTIONS)
+        .upsert(row, { onConflict: "post_id,reader_id,reaction", ignoreDuplicates: true })
+    : await supabaseAdmin.from(TABLES.BLOG_POST_REACTIONS).delete().match(row);
+
+  if (error) {
+    throw error;
+  }
+
+  const counts = await countReactions(postId);
+  await updateCounts(postId, { reaction_counts: counts });
+  return counts;
+}
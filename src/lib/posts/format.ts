@@ -0,0 +1,11 @@
+// "June 15, 2023", the way dates are shown across the blog
+export const formatPostDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+// "1.2K", view and reaction counts
+export const formatCount = (count: number) =>
+  new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(count);
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { recordRevision } from "@/lib/posts/revisions";
+import { postInputSchema, toPostColumns } from "@/lib/posts/schema";
+import { slugify } from "@/lib/posts/slug";
+import { resolveLifecycle } from "@/lib/posts/status";
+import { findPostBySlug } from "@/lib/posts/store";
+
+// A post in an import file: the same fields the dashboard sends, plus the
+// date it was originally published. Imported posts are published unless
+// they say otherwise.
+const postImportSchema = z.intersection(
+  postInputSchema,
+  z.object({
+    date: z.string().datetime({ offset: true, message: "Date must be a valid date" }).optional(),
+  }),
+);
+
+export type PostImport = z.input<typeof postImportSchema>;
+
+export interface ImportReport {
+  created: string[];
+  updated: string[];
+  skipped: string[];
+  failed: { post: string; message: string }[];
+}
+
+// Posts are matched on their slug (or the slug their title gives), so
+// running an import twice does not create duplicates. Existing posts are
+// only changed with overwrite.
+export async function importPosts(posts: unknown[], { overwrite = false } = {}): Promise<ImportReport> {
+  const report: ImportReport = { created: [], updated: [], skipped: [], failed: [] };
+
+  for (const [index, raw] of posts.entries()) {
+    const parsed = postImportSchema.safeParse({ status: "published", ...(raw as object) });
+    if (!parsed.success) {
+      report.failed.push({ post: `#${index + 1}`, message: parsed.error.issues[0].message });
+      continue;
+    }
+
+    const { date, ...input } = parsed.data;
+    const slug = input.slug || slugify(input.title);
+    try {
+      const existing = await findPostBySlug(slug);
+      if (existing && !overwrite) {
+        report.skipped.push(slug);
+        continue;
+      }
+
+      const lifecycle = resolveLifecycle({ status: input.status, publish_at: input.publish_at ?? date }, null);
+      if (lifecycle.error !== null) {
+        report.failed.push({ post: slug, message: lifecycle.error });
+        continue;
+      }
+
+      const { columns } = toPostColumns(input);
+      const now = new Date().toISOString();
+      const row = {
+        ...columns,
+        slug,
+        author: input.author || "Admin",
+        date: date ?? now,
+        ...lifecycle.columns,
+        updated_at: now,
+      };
+
+      const { data, error } = existing
+        ? await supabaseAdmin.from(TABLES.BLOG_POSTS).update(row).eq("id", existing.id).select().single()
+        : await supabaseAdmin
+            .from(TABLES.BLOG_POSTS)
+            .insert({ ...row, created_at: now })
+            .select()
+            .single();
+      if (error) {
+        throw error;
+      }
+
+      await recordRevision(data, null, "import");
+      (existing ? report.updated : report.created).push(slug);
+    } catch (error) {
+      console.error(`Error importing post ${slug}:`, error);
+      // Supabase errors are plain objects with a message
+      const message = (error as { message?: string } | null)?.message || "Failed to save";
+      report.failed.push({ post: slug, message });
+    }
+  }
+
+  return report;
+}
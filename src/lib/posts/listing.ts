@@ -0,0 +1,77 @@
+import { slugify } from "@/lib/posts/slug";
+
+// What /blog shows, kept in its query string so every view can be shared,
+// bookmarked and restored with back and forward:
+//   /blog?category=seo&q=keywords&page=2
+
+export const BLOG_PAGE_SIZE = 9;
+
+export interface BlogView {
+  // Slug of the category, see listCategories
+  category: string | null;
+  q: string;
+  page: number;
+}
+
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+export function parseBlogView(params: SearchParams): BlogView {
+  return {
+    category: first(params.category)?.trim().toLowerCase() || null,
+    q: first(params.q)?.trim() ?? "",
+    page: parsePage(params),
+  };
+}
+
+export const DEFAULT_BLOG_VIEW: BlogView = { category: null, q: "", page: 1 };
+
+export function isDefaultBlogView({ category, q, page }: BlogView) {
+  return !category && !q && page === 1;
+}
+
+// The plain listing at /blog is static. Every other view is rendered for
+// each request at this path, middleware.ts rewrites /blog?... here.
+export const BLOG_VIEW_PATH = "/blog-view";
+
+// Defaults are left out so the plain listing stays /blog
+export function blogHref({ category, q, page }: BlogView) {
+  const params = new URLSearchParams();
+  if (category) {
+    params.set("category", category);
+  }
+  if (q) {
+    params.set("q", q);
+  }
+  if (page > 1) {
+    params.set("page", String(page));
+  }
+  const query = params.toString();
+  return query ? `/blog?${query}` : "/blog";
+}
+
+function withPage(path: string, page: number) {
+  return page > 1 ? `${path}?page=${page}` : path;
+}
+
+// Archive of one category or tag. Takes the name as posts have it, which
+// gives the same slug as listCategories and listTags.
+export function categoryHref(name: string, page = 1) {
+  return withPage(`/blog/category/${slugify(name)}`, page);
+}
+
+export function tagHref(name: string, page = 1) {
+  return withPage(`/blog/tag/${slugify(name)}`, page);
+}
+
+// Author slugs are stored with the profile, not derived from the name
+export function authorHref(slug: string, page = 1) {
+  return withPage(`/blog/author/${slug}`, page);
+}
+
+// The page number of an archive from its query string
+export function parsePage(params: SearchParams) {
+  const page = Number.parseInt(first(params.page) ?? "", 10);
+  return Number.isFinite(page) && page > 1 ? page : 1;
+}
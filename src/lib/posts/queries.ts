@@ -0,0 +1,266 @@
+import { cache } from "react";
+import { supabase, TABLES } from "@/lib/supabase";
+import { isUuid, slugify } from "@/lib/posts/slug";
+import { LIVE_STATUSES } from "@/lib/posts/status";
+import { type BlogPostRow, POST_SUMMARY_COLUMNS, type PostSummary } from "@/lib/posts/types";
+
+// Reads for the public blog pages. They use the anon client, so they only
+// ever see what the row level security policies let visitors see, and the
+// live filter keeps drafts and posts scheduled for later out.
+//
+// Errors are thrown rather than treated as "no posts": a failed read while
+// a page is regenerated keeps the previous version instead of caching an
+// empty blog or a 404.
+
+// Cached per request, generateMetadata and the page share one query
+export const getLivePost = cache(async (slug: string) => {
+  const { data, error } = await supabase
+    .from(TABLES.BLOG_POSTS)
+    .select("*")
+    .eq("slug", slug)
+    .in("status", LIVE_STATUSES)
+    .lte("publish_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as BlogPostRow | null;
+});
+
+// Newest first. Cached for the request, a post page uses it for the
+// categories and the related posts.
+export const listLivePosts = cache(async () => {
+  const { data, error } = await supabase
+    .from(TABLES.BLOG_POSTS)
+    .select(POST_SUMMARY_COLUMNS)
+    .in("status", LIVE_STATUSES)
+    .lte("publish_at", new Date().toISOString())
+    .order("publish_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as PostSummary[];
+});
+
+// One page of a listing, newest first, with the number of matching posts.
+// categories and tags are the names of one term (see PostTerm.names), posts
+// with any of them match. featured picks featured or other posts, leave it
+// out for both.
+export async function listLivePostsPage({
+  page,
+  pageSize,
+  categories,
+  tags,
+  authorId,
+  featured,
+}: {
+  page: number;
+  pageSize: number;
+  categories?: string[];
+  tags?: string[];
+  authorId?: string;
+  featured?: boolean;
+}) {
+  let query = supabase
+    .from(TABLES.BLOG_POSTS)
+    .select(POST_SUMMARY_COLUMNS, { count: "exact" })
+    .in("status", LIVE_STATUSES)
+    .lte("publish_at", new Date().toISOString());
+  if (categories) {
+    query = query.overlaps("categories", categories);
+  }
+  if (tags) {
+    query = query.overlaps("tags", tags);
+  }
+  if (authorId) {
+    query = query.eq("author_id", authorId);
+  }
+  if (featured !== undefined) {
+    query = query.eq("featured", featured);
+  }
+
+  const from = (page - 1) * pageSize;
+  const { data, count, error } = await query
+    .order("publish_at", { ascending: false })
+    .order("id", { ascending: true })
+    .range(from, from + pageSize - 1);
+  // PostgREST answers a page past the end with an error, that is just an
+  // empty page
+  if (error && error.code !== "PGRST103") {
+    throw error;
+  }
+
+  return { posts: (data ?? []) as PostSummary[], total: count ?? 0 };
+}
+
+export async function countLivePosts() {
+  const { count, error } = await supabase
+    .from(TABLES.BLOG_POSTS)
+    .select("id", { count: "exact", head: true })
+    .in("status", LIVE_STATUSES)
+    .lte("publish_at", new Date().toISOString());
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+// Slugs and last changes of live posts, oldest first so a post keeps its
+// place between pages of the sitemap. Read in batches because the API
+// returns at most 1000 rows per request.
+export async function listLivePostUrls(offset: number, limit: number) {
+  const batchSize = 1000;
+  const urls: Pick<BlogPostRow, "slug" | "updated_at">[] = [];
+  for (let from = offset; from < offset + limit; from += batchSize) {
+    const to = Math.min(from + batchSize, offset + limit) - 1;
+    const { data, error } = await supabase
+      .from(TABLES.BLOG_POSTS)
+      .select("slug, updated_at")
+      .in("status", LIVE_STATUSES)
+      .lte("publish_at", new Date().toISOString())
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to);
+    if (error) {
+      throw error;
+    }
+
+    urls.push(...data);
+    if (data.length < to - from + 1) {
+      break;
+    }
+  }
+  return urls;
+}
+
+// The newest posts with their content, optionally only those in one
+// category or with one tag
+export async function listRecentLivePosts({
+  limit,
+  categories,
+  tags,
+}: {
+  limit: number;
+  categories?: string[];
+  tags?: string[];
+}) {
+  let query = supabase
+    .from(TABLES.BLOG_POSTS)
+    .select("*")
+    .in("status", LIVE_STATUSES)
+    .lte("publish_at", new Date().toISOString());
+  if (categories) {
+    query = query.overlaps("categories", categories);
+  }
+  if (tags) {
+    query = query.overlaps("tags", tags);
+  }
+
+  const { data, error } = await query.order("publish_at", { ascending: false }).limit(limit);
+  if (error) {
+    throw error;
+  }
+
+  return data as BlogPostRow[];
+}
+
+// A category or tag of live posts
+export interface PostTerm {
+  name: string;
+  // URL form of the name, /blog/category/<slug> or /blog/tag/<slug>
+  slug: string;
+  // Every spelling posts use for it, name among them. Listings of the term
+  // query by these.
+  names: string[];
+  // Posts using any of the names
+  count: number;
+}
+
+export type PostCategory = PostTerm;
+export type PostTag = PostTerm;
+
+// Categories and tags are free text on each post, so they only exist while
+// a post uses them. Names that differ only in case or punctuation share a
+// slug and are one term, shown under the first name seen. A post with two
+// spellings of a term counts once.
+function collectTerms(posts: PostSummary[], field: "categories" | "tags") {
+  const terms = new Map<string, PostTerm>();
+  for (const post of posts) {
+    const counted = new Set<string>();
+    for (const name of post[field]) {
+      const slug = slugify(name);
+      if (!slug) {
+        continue;
+      }
+      const term = terms.get(slug) ?? { name, slug, names: [], count: 0 };
+      terms.set(slug, term);
+      if (!term.names.includes(name)) {
+        term.names.push(name);
+      }
+      if (!counted.has(slug)) {
+        counted.add(slug);
+        term.count++;
+      }
+    }
+  }
+  return Array.from(terms.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// The categories of live posts, most used first
+export async function listCategories(): Promise<PostCategory[]> {
+  return collectTerms(await listLivePosts(), "categories");
+}
+
+export async function findCategory(slug: string) {
+  const categories = await listCategories();
+  return categories.find((category) => category.slug === slug) ?? null;
+}
+
+// The tags of live posts, most used first
+export async function listTags(): Promise<PostTag[]> {
+  return collectTerms(await listLivePosts(), "tags");
+}
+
+export async function findTag(slug: string) {
+  const tags = await listTags();
+  return tags.find((tag) => tag.slug === slug) ?? null;
+}
+
+// Where an old URL points now: /blog/<uuid> from before posts had slugs, or
+// a slug the post had before it was renamed
+export async function findCurrentSlug(oldSlug: string) {
+  let postId = isUuid(oldSlug) ? oldSlug : null;
+  if (!postId) {
+    const { data, error } = await supabase
+      .from(TABLES.BLOG_POST_SLUG_HISTORY)
+      .select("post_id")
+      .eq("slug", oldSlug)
+      .maybeSingle();
+    if (error) {
+      throw error;
+    }
+    postId = data?.post_id ?? null;
+  }
+  if (!postId) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.BLOG_POSTS)
+    .select("slug")
+    .eq("id", postId)
+    .in("status", LIVE_STATUSES)
+    .lte("publish_at", new Date().toISOString())
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+
+  return (data?.slug as string | undefined) ?? null;
+}
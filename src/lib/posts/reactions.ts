@@ -0,0 +1,22 @@
+// The reactions readers can leave on a post, one of each per reader. The
+// keys are stored, so changing an emoji or label is safe but renaming or
+// removing a key drops the reactions it had.
+export const REACTIONS = [
+  { key: "like", emoji: "👍", label: "Like" },
+  { key: "love", emoji: "❤️", label: "Love" },
+  { key: "insightful", emoji: "💡", label: "Insightful" },
+  { key: "celebrate", emoji: "🎉", label: "Celebrate" },
+] as const;
+
+export type ReactionKey = (typeof REACTIONS)[number]["key"];
+
+// The reaction_counts column of a post, keys without reactions are left out
+export type ReactionCounts = Partial<Record<ReactionKey, number>>;
+
+export function isReactionKey(value: unknown): value is ReactionKey {
+  return REACTIONS.some((reaction) => reaction.key === value);
+}
+
+export function totalReactions(counts: ReactionCounts | null | undefined) {
+  return REACTIONS.reduce((total, { key }) => total + (counts?.[key] ?? 0), 0);
+}
@@ -0,0 +1,27 @@
+import { renderPostContent } from "@/lib/content/render";
+import { htmlToText } from "@/lib/content/text";
+
+// Reading time shown on posts and cards, e.g. "5 min read". Counted from
+// the words of the rendered text, so markup, link addresses and component
+// tags do not make a post look longer than it reads.
+
+// Words a minute an adult reads on screen, the usual figure for estimates
+export const WORDS_PER_MINUTE = 225;
+
+// Words with their apostrophes and hyphens, "don't" and "on-page" are one
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+export function countWords(text: string) {
+  return text.match(WORD_PATTERN)?.length ?? 0;
+}
+
+// Word count and read time of rendered HTML, the editor shows them as
+// you type
+export function readingStats(html: string) {
+  const words = countWords(htmlToText(html));
+  return { words, readTime: `${Math.max(1, Math.ceil(words / WORDS_PER_MINUTE))} min read` };
+}
+
+export function estimateReadTime(content: string, format: string | null | undefined) {
+  return readingStats(renderPostContent(content, format).html).readTime;
+}
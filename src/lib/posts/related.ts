@@ -0,0 +1,126 @@
+import { listLivePosts } from "@/lib/posts/queries";
+import { slugify } from "@/lib/posts/slug";
+import { normalize, stem } from "@/lib/posts/stem";
+import type { BlogPostRow, PostSummary } from "@/lib/posts/types";
+
+// Recommends other live posts for a post page. Every candidate is scored on
+// what it shares with the post: tags count most, then categories, then the
+// author. Similar words in the title and excerpt catch posts that were
+// labelled differently, and newer posts win a little over older ones. The
+// recency score is never zero, so the list is only empty when there are no
+// other posts.
+
+export const RELATED_POST_LIMIT = 3;
+
+const TAG_WEIGHT = 3;
+const CATEGORY_WEIGHT = 2;
+const AUTHOR_WEIGHT = 1;
+// Multiplies the cosine similarity of the words, between 0 and 1
+const TEXT_WEIGHT = 2;
+// Multiplies a recency between 0 and 1 that halves every RECENCY_HALF_LIFE_DAYS
+const RECENCY_WEIGHT = 0.5;
+const RECENCY_HALF_LIFE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Words too common to say anything about what a post is about
+const STOP_WORDS = new Set(
+  "a an and are as at be by can do for from has have how in into is it its of on or our that the their this to we what when why will with you your".split(
+    " ",
+  ),
+);
+
+export interface RelatedPost extends PostSummary {
+  score: number;
+}
+
+type Candidate = Pick<PostSummary, "id" | "title" | "excerpt" | "author" | "date" | "categories" | "tags">;
+
+function labels(values: string[]) {
+  return new Set(values.map(slugify).filter(Boolean));
+}
+
+function countShared(a: Set<string>, b: Set<string>) {
+  let count = 0;
+  for (const value of a) {
+    if (b.has(value)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// Stemmed word counts of the title and excerpt, the title counted twice
+function termVector({ title, excerpt }: Pick<Candidate, "title" | "excerpt">) {
+  const vector = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const [word] of text.matchAll(WORD_PATTERN)) {
+      const normalized = normalize(word);
+      if (normalized.length < 3 || STOP_WORDS.has(normalized)) {
+        continue;
+      }
+      const term = stem(normalized);
+      vector.set(term, (vector.get(term) ?? 0) + weight);
+    }
+  };
+  add(title, 2);
+  add(excerpt, 1);
+  return vector;
+}
+
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>) {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) ?? 0);
+  }
+  if (dot === 0) {
+    return 0;
+  }
+  const length = (vector: Map<string, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0));
+  return dot / (length(a) * length(b));
+}
+
+function recency(date: string, now: number) {
+  const ageDays = Math.max(0, (now - new Date(date).getTime()) / DAY_MS);
+  return 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+// The best limit candidates for post, highest score first. Ties go to the
+// newer post and then the lower id, so the list does not change between
+// renders while the posts stay the same.
+export function rankRelatedPosts<T extends Candidate>(
+  post: Candidate,
+  candidates: T[],
+  limit = RELATED_POST_LIMIT,
+  now = Date.now(),
+): (T & { score: number })[] {
+  const tags = labels(post.tags);
+  const categories = labels(post.categories);
+  const author = post.author.trim().toLowerCase();
+  const terms = termVector(post);
+
+  return candidates
+    .filter((candidate) => candidate.id !== post.id)
+    .map((candidate) => {
+      const score =
+        TAG_WEIGHT * countShared(tags, labels(candidate.tags)) +
+        CATEGORY_WEIGHT * countShared(categories, labels(candidate.categories)) +
+        (author && candidate.author.trim().toLowerCase() === author ? AUTHOR_WEIGHT : 0) +
+        TEXT_WEIGHT * cosineSimilarity(terms, termVector(candidate)) +
+        RECENCY_WEIGHT * recency(candidate.date, now);
+      return { ...candidate, score };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        new Date(b.date).getTime() - new Date(a.date).getTime() ||
+        (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+    )
+    .slice(0, limit);
+}
+
+export async function findRelatedPosts(post: BlogPostRow, limit = RELATED_POST_LIMIT): Promise<RelatedPost[]> {
+  return rankRelatedPosts(post, await listLivePosts(), limit);
+}
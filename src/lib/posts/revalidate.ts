@@ -0,0 +1,24 @@
+import { revalidatePath } from "next/cache";
+import { FEED_FORMATS } from "@/lib/feed";
+
+// Regenerates the statically rendered blog after a post changes. Every page
+// under /blog is refreshed, not only the post itself, because listings and
+// the related posts on other posts show it too.
+export function revalidateBlog() {
+  revalidatePath("/blog", "layout");
+  revalidatePath("/og", "layout");
+  for (const { file } of Object.values(FEED_FORMATS)) {
+    revalidatePath(`/${file}`);
+  }
+}
+
+// Author names and profiles show on the blog and the team on /about
+export function revalidateAuthors() {
+  revalidateBlog();
+  revalidatePath("/about");
+}
+
+// Comments only show on the post they are on
+export function revalidatePostPage(slug: string) {
+  revalidatePath(`/blog/${slug}`);
+}
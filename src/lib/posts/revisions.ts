@@ -0,0 +1,90 @@
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import type { AdminUser } from "@/lib/auth/roles";
+import type { BlogPostRow, PostRevisionRow, PostSnapshot, RevisionAction } from "@/lib/posts/types";
+
+export function toSnapshot(post: BlogPostRow): PostSnapshot {
+  return {
+    title: post.title,
+    excerpt: post.excerpt,
+    content: post.content,
+    content_format: post.content_format,
+    author: post.author,
+    author_id: post.author_id,
+    categories: post.categories,
+    tags: post.tags,
+    image: post.image,
+    image_asset_id: post.image_asset_id,
+    featured: post.featured,
+    status: post.status,
+    publish_at: post.publish_at,
+  };
+}
+
+// Stores the post as it is after a save. Every save gets a row, so the
+// previous version is always the revision before the latest one.
+export async function recordRevision(
+  post: BlogPostRow,
+  user: AdminUser | null,
+  action: RevisionAction,
+  restoredFrom: string | null = null,
+) {
+  const { error } = await supabaseAdmin.from(TABLES.BLOG_POST_REVISIONS).insert({
+    post_id: post.id,
+    snapshot: toSnapshot(post),
+    action,
+    restored_from: restoredFrom,
+    created_by: user?.id ?? null,
+    created_by_name: user?.displayName ?? null,
+    created_at: post.updated_at,
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Posts written before revisions existed have no history yet, keep what is
+// about to be overwritten as their first revision
+export async function ensureBaselineRevision(post: BlogPostRow) {
+  const { count, error } = await supabaseAdmin
+    .from(TABLES.BLOG_POST_REVISIONS)
+    .select("id", { count: "exact", head: true })
+    .eq("post_id", post.id);
+
+  if (error) {
+    throw error;
+  }
+  if (!count) {
+    await recordRevision(post, null, "baseline");
+  }
+}
+
+export async function listRevisions(postId: string) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.BLOG_POST_REVISIONS)
+    .select("*")
+    .eq("post_id", postId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as PostRevisionRow[];
+}
+
+export async function findRevision(postId: string, revisionId: string) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.BLOG_POST_REVISIONS)
+    .select("*")
+    .eq("post_id", postId)
+    .eq("id", revisionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as PostRevisionRow | null;
+}
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { findUnknownComponents, MDX_COMPONENTS } from "@/lib/content/markdown";
+import { CONTENT_FORMATS, type ContentFormat, sanitizePostContent } from "@/lib/content/render";
+import { estimateReadTime } from "@/lib/posts/read-time";
+import { SLUG_MAX_LENGTH, SLUG_PATTERN } from "@/lib/posts/slug";
+import { POST_STATUSES } from "@/lib/posts/status";
+import type { BlogPostRow } from "@/lib/posts/types";
+
+export const DEFAULT_POST_IMAGE = "https://placehold.co/800x450/48b899/fff";
+
+// Comma separated lists from the dashboard arrive as arrays, drop the empty
+// entries a trailing comma leaves behind and any duplicates
+const labelList = (label: string, max: number) =>
+  z
+    .array(z.string().trim().max(50, `${label} must be at most 50 characters each`))
+    .transform((values) => Array.from(new Set(values.filter(Boolean))))
+    .pipe(z.array(z.string()).max(max, `Use at most ${max} ${label.toLowerCase()}`));
+
+// Either an absolute http(s) URL or a path to a file in /public
+export const imageUrl = z
+  .string()
+  .trim()
+  .refine(
+    (value) => {
+      if (value.startsWith("/") && !value.startsWith("//")) {
+        return true;
+      }
+      try {
+        const url = new URL(value);
+        return url.protocol === "https:" || url.protocol === "http:";
+      } catch {
+        return false;
+      }
+    },
+    { message: "Image must be an http(s) URL or a path starting with /" },
+  );
+
+// Markdown content may only use the components the renderer knows about
+function checkComponents(value: { content?: string; content_format?: string }, ctx: z.RefinementCtx) {
+  if (value.content === undefined || value.content_format === "html") {
+    return;
+  }
+  const unknown = findUnknownComponents(value.content);
+  if (unknown.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["content"],
+      message: `Unknown component <${unknown[0]}>, use one of ${MDX_COMPONENTS.map((name) => `<${name}>`).join(", ")}`,
+    });
+  }
+}
+
+const postFields = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(5, "Title must be at least 5 characters")
+    .max(150, "Title must be at most 150 characters"),
+  // Left out to generate one from the title
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .max(SLUG_MAX_LENGTH, `Slug must be at most ${SLUG_MAX_LENGTH} characters`)
+    .regex(SLUG_PATTERN, "Slug may only contain lowercase letters, numbers and single dashes")
+    .optional(),
+  excerpt: z
+    .string()
+    .trim()
+    .min(1, "Excerpt is required")
+    .max(300, "Excerpt must be at most 300 characters"),
+  content: z.string().trim().min(1, "Content is required"),
+  content_format: z.enum(CONTENT_FORMATS).default("markdown"),
+  // Free text for posts without a profile, author_id picks one from the
+  // authors table and the name comes from there
+  author: z.string().trim().max(100, "Author must be at most 100 characters").optional(),
+  author_id: z.string().uuid("Pick an author from the list").nullable().optional(),
+  categories: labelList("Categories", 10).refine((values) => values.length > 0, {
+    message: "Add at least one category",
+  }),
+  tags: labelList("Tags", 20),
+  image: imageUrl.default(DEFAULT_POST_IMAGE),
+  // An upload from /api/admin/media, the image then comes from there
+  image_asset_id: z.string().uuid("Upload the cover image again").nullable().optional(),
+  featured: z.boolean().default(false),
+  status: z.enum(POST_STATUSES).default("draft"),
+  publish_at: z.string().datetime({ offset: true, message: "Publish date must be a valid date" }).nullable().optional(),
+});
+
+export const postInputSchema = postFields.superRefine(checkComponents);
+
+// Updates may send any subset of the fields, but each one is validated the
+// same way as on create
+export const postUpdateSchema = postFields
+  .partial()
+  .extend({
+    content_format: z.enum(CONTENT_FORMATS).optional(),
+    image: imageUrl.optional(),
+    featured: z.boolean().optional(),
+    status: z.enum(POST_STATUSES).optional(),
+  })
+  .superRefine(checkComponents)
+  .refine((value) => Object.values(value).some((field) => field !== undefined), {
+    message: "Nothing to update",
+  });
+
+export type PostInput = z.infer<typeof postInputSchema>;
+export type PostUpdate = z.infer<typeof postUpdateSchema>;
+
+// Maps validated input to blog_posts columns, including the derived ones.
+// status and publish_at are left out, they go through resolveLifecycle.
+// Content is sanitized on the way, removed lists what was taken out so the
+// editor can be told. current is the stored post on an update: its format
+// applies when only the content is sent, and the read time is worked out
+// again on every save even when the content did not change. The author and
+// cover image columns are filled in by applyPostAuthor and applyCoverImage.
+export function toPostColumns(
+  input: PostUpdate,
+  current: Pick<BlogPostRow, "content" | "content_format"> | null = null,
+) {
+  const format: ContentFormat = input.content_format ?? current?.content_format ?? "markdown";
+  const columns: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (value !== undefined && key !== "status" && key !== "publish_at") {
+      columns[key] = value;
+    }
+  }
+
+  let removed: string[] = [];
+  if (input.content !== undefined) {
+    const sanitized = sanitizePostContent(input.content, format);
+    columns.content = sanitized.content;
+    columns.read_time = estimateReadTime(sanitized.content, format);
+    removed = sanitized.removed;
+  } else if (current) {
+    columns.read_time = estimateReadTime(current.content, format);
+  }
+
+  return { columns, removed };
+}
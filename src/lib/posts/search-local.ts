@@ -0,0 +1,122 @@
+import { renderPostContent } from "@/lib/content/render";
+import { htmlToText } from "@/lib/content/text";
+import { listRecentLivePosts } from "@/lib/posts/queries";
+import type { SearchOptions, SearchResult } from "@/lib/posts/search";
+import { normalize, stem } from "@/lib/posts/stem";
+import type { BlogPostRow } from "@/lib/posts/types";
+
+// In memory version of the search_blog_posts function, for databases that
+// do not have it. Close enough to the Postgres behaviour for development:
+// the same field weights, prefix matches and a rough English stemmer.
+
+// The most posts searched this way, more than a development project has
+const POST_LIMIT = 1000;
+
+// ts_rank's default weights for the A, B and C labels the columns get
+const TITLE_WEIGHT = 1;
+const META_WEIGHT = 0.4;
+const CONTENT_WEIGHT = 0.2;
+
+const SNIPPET_WORDS = 30;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+function matchesTerm(word: string, term: string) {
+  return word.startsWith(term) || stem(word).startsWith(stem(term));
+}
+
+function countMatches(text: string, term: string) {
+  let count = 0;
+  for (const [word] of text.matchAll(WORD_PATTERN)) {
+    if (matchesTerm(normalize(word), term)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// Post content as text, without markup
+function plainText(post: BlogPostRow) {
+  return htmlToText(renderPostContent(post.content, post.content_format).html);
+}
+
+// Wraps the words that match a term in <mark>
+function highlight(text: string, terms: string[]) {
+  return text.replace(WORD_PATTERN, (word) =>
+    terms.some((term) => matchesTerm(normalize(word), term)) ? `<mark>${word}</mark>` : word,
+  );
+}
+
+// SNIPPET_WORDS words around the first match, or the start of the text
+function snippet(text: string, terms: string[]) {
+  const words = Array.from(text.matchAll(WORD_PATTERN));
+  if (words.length === 0) {
+    return "";
+  }
+  const first = words.findIndex(([word]) => terms.some((term) => matchesTerm(normalize(word), term)));
+  const startWord = Math.max(0, first - Math.floor(SNIPPET_WORDS / 3));
+  const endWord = Math.min(words.length, startWord + SNIPPET_WORDS);
+
+  const start = words[startWord].index ?? 0;
+  const last = words[endWord - 1];
+  const end = (last.index ?? 0) + last[0].length;
+  const piece = highlight(text.slice(start, end), terms);
+  return `${start > 0 ? "… " : ""}${piece}${end < text.length ? " …" : ""}`;
+}
+
+function score(post: BlogPostRow, content: string, terms: string[]) {
+  const meta = [...post.tags, post.author, post.excerpt].join(" ");
+  let total = 0;
+  for (const term of terms) {
+    const termScore =
+      TITLE_WEIGHT * countMatches(post.title, term) +
+      META_WEIGHT * countMatches(meta, term) +
+      CONTENT_WEIGHT * countMatches(content, term);
+    // Every term has to match, like the & in the tsquery
+    if (termScore === 0) {
+      return 0;
+    }
+    total += termScore;
+  }
+  // Longer posts mention everything more often, like ts_rank_cd's
+  // normalization by document length
+  return total / (1 + Math.log(1 + content.length / 100));
+}
+
+export async function searchPostsLocally(
+  terms: string[],
+  { limit, offset = 0, categories }: SearchOptions,
+): Promise<SearchResult[]> {
+  const posts = await listRecentLivePosts({ limit: POST_LIMIT, categories });
+  const results: SearchResult[] = [];
+  for (const post of posts) {
+    const content = plainText(post);
+    const rank = score(post, content, terms);
+    if (rank === 0) {
+      continue;
+    }
+    results.push({
+      id: post.id,
+      slug: post.slug,
+      title: post.title,
+      excerpt: post.excerpt,
+      author: post.author,
+      date: post.date,
+      read_time: post.read_time,
+      categories: post.categories,
+      tags: post.tags,
+      image: post.image,
+      image_avif: post.image_avif,
+      image_placeholder: post.image_placeholder,
+      featured: post.featured,
+      view_count: post.view_count,
+      reaction_counts: post.reaction_counts,
+      rank,
+      titleHighlight: highlight(post.title, terms),
+      snippet: snippet(`${post.excerpt} ${content}`, terms),
+    });
+  }
+
+  // Posts come newest first and the sort is stable, so ties stay in that order
+  return results.sort((a, b) => b.rank - a.rank).slice(offset, offset + limit);
+}
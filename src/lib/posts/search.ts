@@ -0,0 +1,78 @@
+import { supabase } from "@/lib/supabase";
+import { searchPostsLocally } from "@/lib/posts/search-local";
+import type { PostSummary } from "@/lib/posts/types";
+
+// Search over live posts: title, excerpt, content, tags and author. Uses the
+// search_blog_posts function (see the schema in lib/supabase.ts) and falls
+// back to searching in memory when the database does not have it yet, as
+// in a fresh development project.
+
+export const SEARCH_QUERY_MAX_LENGTH = 200;
+
+const MAX_TERMS = 8;
+
+export interface SearchResult extends PostSummary {
+  rank: number;
+  // The title and a piece of the post with the matches in <mark>…</mark>,
+  // everything else is plain text
+  titleHighlight: string;
+  snippet: string;
+}
+
+// The words of a query, lowercased and without accents or punctuation
+export function searchTerms(query: string) {
+  const words =
+    query
+      .normalize("NFKD")
+      .replace(/\p{Diacritic}/gu, "")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+  return Array.from(new Set(words)).slice(0, MAX_TERMS);
+}
+
+// Every term has to match, each as a prefix so results show up while a
+// word is still being typed. to_tsquery stems the terms.
+function toTsQuery(terms: string[]) {
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+// Postgres and PostgREST errors for a function that does not exist
+const MISSING_FUNCTION_CODES = new Set(["42883", "PGRST202"]);
+
+let warnedAboutFallback = false;
+
+export interface SearchOptions {
+  limit: number;
+  offset?: number;
+  // Only posts in this category, by its names (see PostTerm.names)
+  categories?: string[];
+}
+
+export async function searchPosts(query: string, { limit, offset = 0, categories }: SearchOptions): Promise<SearchResult[]> {
+  const terms = searchTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc("search_blog_posts", {
+    search_query: toTsQuery(terms),
+    result_limit: limit,
+    result_offset: offset,
+    category_names: categories ?? null,
+  });
+
+  if (error && MISSING_FUNCTION_CODES.has(error.code)) {
+    if (!warnedAboutFallback) {
+      console.warn("search_blog_posts is missing from the database, searching posts in memory instead");
+      warnedAboutFallback = true;
+    }
+    return searchPostsLocally(terms, { limit, offset, categories });
+  }
+  if (error) {
+    throw error;
+  }
+
+  return (data as (PostSummary & { rank: number; title_highlight: string; snippet: string })[]).map(
+    ({ title_highlight, ...result }) => ({ ...result, titleHighlight: title_highlight }),
+  );
+}
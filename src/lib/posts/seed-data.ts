@@ -0,0 +1,147 @@
+import type { PostImport } from "@/lib/posts/import";
+
+// The posts the blog started with, before posts lived in the database.
+// Loaded with `npm run seed:posts`, existing slugs are left alone.
+export const SEED_POSTS: PostImport[] = [
+  {
+    slug: "essential-seo-strategies-2023",
+    title: "Essential SEO Strategies for 2023: Staying Ahead in the Digital Race",
+    excerpt:
+      "Discover the most effective SEO techniques that are working in 2023 to improve your website's visibility and organic traffic.",
+    image: "/hacks_v5_images/blog_1.png",
+    author: "Sarah Johnson",
+    date: "2023-06-15T00:00:00.000Z",
+    categories: ["Digital Marketing", "SEO"],
+    tags: ["SEO", "Digital Marketing", "Content Strategy", "Keyword Research", "Link Building", "Technical SEO"],
+    featured: true,
+    content: `In the ever-evolving digital landscape, staying ahead of SEO trends is crucial for businesses looking to maintain and improve their online visibility. As search engines refine their algorithms and user behavior shifts, the strategies that worked yesterday might not be as effective today.
+
+## 1. User Experience is Now a Ranking Factor
+
+With Google's Core Web Vitals now firmly established as ranking factors, the technical aspects of how your website performs for users have never been more important. Page loading speed, interactivity, and visual stability all contribute to your site's overall user experience, which directly impacts your search rankings.
+
+<Callout type="tip">
+### Key Technical Factors to Optimize:
+
+- Largest Contentful Paint (LCP): Aim for under 2.5 seconds
+- First Input Delay (FID): Keep it below 100 milliseconds
+- Cumulative Layout Shift (CLS): Maintain a score of less than 0.1
+- Mobile-friendly design and responsive layouts
+- Secure browsing (HTTPS implementation)
+</Callout>
+
+## 2. Content Quality Over Quantity
+
+While consistent content creation remains important, Google's helpful content update has placed even greater emphasis on creating material that genuinely serves users rather than just search engines. Content that demonstrates expertise, authoritativeness, and trustworthiness (E-A-T) continues to gain favor in search rankings.
+
+Focus on creating in-depth, well-researched content that addresses specific user needs and questions. Rather than producing numerous shallow articles, invest in comprehensive resources that thoroughly cover topics relevant to your audience.
+
+## 3. Semantic Search and Intent Optimization
+
+Search engines have grown increasingly sophisticated in understanding context and user intent behind searches. In 2023, keyword optimization goes beyond exact match keywords to include:
+
+- Topic clusters rather than isolated keywords
+- Natural language optimization for voice search
+- Entity relationships and contextual relevance
+- Intent matching for informational, navigational, and transactional queries
+
+> "The most successful SEO strategies in 2023 focus not just on what users are searching for, but why they're searching for it. Understanding search intent is the foundation of effective optimization."
+
+## 4. Link Building with a Focus on Relevance
+
+Link building remains a critical ranking factor, but the emphasis has shifted decidedly toward quality and relevance over quantity. A few high-quality, contextually relevant backlinks from authoritative sites in your industry now carry more weight than dozens of low-quality links.
+
+Focus on creating linkable assets—comprehensive guides, original research, infographics, or tools—that naturally attract links from relevant sources. Build relationships within your industry to create opportunities for genuine, editorial links rather than artificial link schemes.
+
+## 5. Local SEO Optimization
+
+For businesses with physical locations or those serving specific geographic areas, local SEO has become increasingly important. With the rise of "near me" searches and Google's continued refinement of local search results, optimizing for local visibility offers significant opportunities.
+
+Key local SEO strategies include:
+
+- Claiming and optimizing Google Business Profile
+- Consistent NAP (Name, Address, Phone) information across the web
+- Local keyword optimization in title tags and content
+- Local link building and citations
+- Collecting and responding to customer reviews
+
+## 6. AI and Machine Learning in SEO
+
+The integration of AI in search algorithms has transformed how content is indexed and ranked. Google's BERT and MUM updates have significantly enhanced the search engine's ability to understand natural language and complex queries.
+
+For SEO practitioners, this means:
+
+- Creating content that addresses topics comprehensively rather than optimizing for specific keywords
+- Using natural, conversational language that answers specific questions
+- Structuring content with clear headings and organized information to aid machine understanding
+- Leveraging schema markup to provide explicit context to search engines
+
+## Conclusion
+
+The SEO landscape of 2023 rewards websites that prioritize genuine user value, technical excellence, and authentic authority. By focusing on these key areas—technical performance, content quality, semantic search understanding, relevant link building, local optimization, and adaptation to AI advancements—businesses can develop a sustainable SEO strategy that delivers results in this increasingly competitive digital environment.
+
+Remember that SEO is not about quick wins but building a solid foundation for long-term organic growth. Invest time in understanding your audience's needs and search behaviors, and develop content and experiences that genuinely serve those requirements. In doing so, you'll not only improve your search rankings but also build a more valuable online presence for your customers.
+`,
+  },
+  {
+    slug: "responsive-web-design-best-practices",
+    title: "Responsive Web Design Best Practices for Modern Businesses",
+    excerpt: "Learn how to create websites that provide an optimal viewing experience across all devices and screen sizes.",
+    image: "/hacks_v5_images/blog_2.png",
+    author: "Michael Chen",
+    date: "2023-05-28T00:00:00.000Z",
+    categories: ["Web Development", "UI/UX Design"],
+    tags: [],
+    featured: true,
+    // The static page for this post showed a copy of the SEO article, the
+    // real article still has to be written in the dashboard
+    content: "Learn how to create websites that provide an optimal viewing experience across all devices and screen sizes.",
+  },
+  {
+    slug: "cybersecurity-small-businesses",
+    title: "Cybersecurity Essentials for Small Businesses",
+    excerpt:
+      "Protect your small business from cyber threats with these cost-effective security measures and best practices.",
+    image: "/hacks_v5_images/cybersecurity Blog.png",
+    author: "Alex Rivera",
+    date: "2023-04-10T00:00:00.000Z",
+    categories: ["Cyber Security", "Business"],
+    tags: [],
+    content: "Protect your small business from cyber threats with these cost-effective security measures and best practices.",
+  },
+  {
+    slug: "ai-digital-marketing",
+    title: "How AI is Transforming Digital Marketing Strategies",
+    excerpt:
+      "Explore the revolutionary impact of artificial intelligence on modern marketing practices and customer engagement.",
+    image: "/hacks_v5_images/blog_3.png",
+    author: "Emma Watson",
+    date: "2023-03-22T00:00:00.000Z",
+    categories: ["Digital Marketing", "Technology"],
+    tags: [],
+    content: "Explore the revolutionary impact of artificial intelligence on modern marketing practices and customer engagement.",
+  },
+  {
+    slug: "ecommerce-conversion-optimization",
+    title: "E-commerce Conversion Rate Optimization: Turning Visitors into Customers",
+    excerpt: "Practical techniques to enhance your online store's user experience and boost conversion rates.",
+    image: "/hacks_v5_images/E-Comm.jpg.avif",
+    author: "David Wilson",
+    date: "2023-02-15T00:00:00.000Z",
+    categories: ["E-commerce", "Conversion Optimization"],
+    tags: [],
+    content: "Practical techniques to enhance your online store's user experience and boost conversion rates.",
+  },
+  {
+    slug: "mobile-app-design-trends",
+    title: "Mobile App Design Trends to Watch in 2023",
+    excerpt:
+      "Stay ahead of the curve with these cutting-edge mobile application design trends shaping the user experience.",
+    image: "/hacks_v5_images/Mobile App For blog.png",
+    author: "Sophia Lee",
+    date: "2023-01-30T00:00:00.000Z",
+    categories: ["UI/UX Design", "Mobile Apps"],
+    tags: [],
+    content: "Stay ahead of the curve with these cutting-edge mobile application design trends shaping the user experience.",
+  },
+];
@@ -0,0 +1,25 @@
+// URL slugs for blog posts, /blog/<slug>. Generated from the title and
+// editable in the dashboard, kept unique across posts.
+
+export const SLUG_MAX_LENGTH = 80;
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function slugify(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, SLUG_MAX_LENGTH)
+    .replace(/-+$/g, "");
+}
+
+// Posts used to live at /blog/<uuid>, those URLs redirect to the slug
+export function isUuid(value: string) {
+  return UUID_PATTERN.test(value);
+}
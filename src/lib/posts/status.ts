@@ -0,0 +1,83 @@
+// Post lifecycle. Only live posts are shown on the public blog:
+//
+//   draft      work in progress, never public
+//   scheduled  goes live by itself once publish_at has passed
+//   published  live since publish_at
+//   archived   taken down but kept for reference
+
+export const POST_STATUSES = ["draft", "scheduled", "published", "archived"] as const;
+
+export type PostStatus = (typeof POST_STATUSES)[number];
+
+export const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  published: "Published",
+  archived: "Archived",
+};
+
+// Statuses the public queries match, together with publish_at <= now. A
+// scheduled post whose time has come counts as published without anything
+// having to flip its status.
+export const LIVE_STATUSES: PostStatus[] = ["published", "scheduled"];
+
+export function isPostStatus(value: unknown): value is PostStatus {
+  return typeof value === "string" && (POST_STATUSES as readonly string[]).includes(value);
+}
+
+// The status a post actually has right now, used by the dashboard
+export function effectiveStatus(
+  post: { status: string; publish_at: string | null },
+  now = new Date(),
+): PostStatus {
+  const status = isPostStatus(post.status) ? post.status : "draft";
+  if (status === "scheduled" && post.publish_at && new Date(post.publish_at) <= now) {
+    return "published";
+  }
+  return status;
+}
+
+export function isLive(post: { status: string; publish_at: string | null }, now = new Date()) {
+  return (
+    (LIVE_STATUSES as string[]).includes(post.status) && !!post.publish_at && new Date(post.publish_at) <= now
+  );
+}
+
+interface LifecycleChange {
+  status: PostStatus;
+  publish_at?: string | null;
+}
+
+type LifecycleResult =
+  | { columns: { status: PostStatus; publish_at: string | null; date?: string }; error: null }
+  | { columns: null; error: string };
+
+// Works out the status and publish_at to store for a requested change.
+// Publishing with a future date schedules the post instead, publishing
+// without a date uses the original publish date or now. The public `date`
+// shown on the post follows publish_at once the post goes out.
+export function resolveLifecycle(
+  change: LifecycleChange,
+  existing: { publish_at: string | null } | null,
+  now = new Date(),
+): LifecycleResult {
+  const requestedAt = change.publish_at !== undefined ? change.publish_at : (existing?.publish_at ?? null);
+
+  if (change.status === "draft" || change.status === "archived") {
+    return { columns: { status: change.status, publish_at: requestedAt }, error: null };
+  }
+
+  if (change.status === "scheduled") {
+    if (!requestedAt || new Date(requestedAt) <= now) {
+      return { columns: null, error: "Pick a publish date in the future to schedule this post" };
+    }
+    return { columns: { status: "scheduled", publish_at: requestedAt, date: requestedAt }, error: null };
+  }
+
+  if (requestedAt && new Date(requestedAt) > now) {
+    return { columns: { status: "scheduled", publish_at: requestedAt, date: requestedAt }, error: null };
+  }
+
+  const publishAt = requestedAt || now.toISOString();
+  return { columns: { status: "published", publish_at: publishAt, date: publishAt }, error: null };
+}
@@ -0,0 +1,26 @@
+// Word handling shared by the in memory search (search-local.ts) and the
+// related posts (related.ts)
+
+// Longest first, the first suffix that fits is removed
+const SUFFIXES = ["ational", "ization", "fulness", "ousness", "iveness", "ements", "ement", "ments", "ment", "ingly", "edly", "ings", "ing", "ies", "ied", "ers", "er", "ed", "es", "ly", "s"];
+
+export function normalize(word: string) {
+  return word.normalize("NFKD").replace(/\p{Diacritic}/gu, "").toLowerCase();
+}
+
+// Strips common English suffixes so "strategies" and "strategy" both
+// become "strateg". Not Porter, but queries and posts are stemmed the same
+// way, which is what matters for matching.
+export function stem(word: string) {
+  if (word.length <= 3) {
+    return word;
+  }
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      const base = word.slice(0, -suffix.length);
+      // running -> run, planned -> plan
+      return /([^aeioulsz])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+  return word.endsWith("y") ? word.slice(0, -1) : word;
+}
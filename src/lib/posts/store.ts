@@ -0,0 +1,101 @@
+import { TABLES } from "@/lib/supabase";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { SLUG_MAX_LENGTH, slugify } from "@/lib/posts/slug";
+import type { BlogPostRow } from "@/lib/posts/types";
+
+export async function findPostById(id: string) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.BLOG_POSTS)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as BlogPostRow | null;
+}
+
+export async function findPostBySlug(slug: string) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLES.BLOG_POSTS)
+    .select("*")
+    .eq("slug", slug)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as BlogPostRow | null;
+}
+
+// Slugs starting with prefix that belong to other posts, now or in the
+// past. Old slugs stay reserved so their redirects keep pointing at the
+// post that had them.
+async function findTakenSlugs(prefix: string, postId?: string) {
+  const [current, history] = await Promise.all([
+    supabaseAdmin.from(TABLES.BLOG_POSTS).select("id, slug").like("slug", `${prefix}%`),
+    supabaseAdmin.from(TABLES.BLOG_POST_SLUG_HISTORY).select("post_id, slug").like("slug", `${prefix}%`),
+  ]);
+
+  if (current.error) {
+    throw current.error;
+  }
+  if (history.error) {
+    throw history.error;
+  }
+
+  const taken = new Set<string>();
+  for (const row of current.data) {
+    if (row.id !== postId) taken.add(row.slug);
+  }
+  for (const row of history.data) {
+    if (row.post_id !== postId) taken.add(row.slug);
+  }
+  return taken;
+}
+
+export async function isSlugAvailable(slug: string, postId?: string) {
+  const taken = await findTakenSlugs(slug, postId);
+  return !taken.has(slug);
+}
+
+// The slug for a title, with -2, -3, ... added when it is taken
+export async function findAvailableSlug(title: string, postId?: string) {
+  const base = slugify(title) || "post";
+  // Room for the suffix, a long base is cut short before it gets one
+  const prefix = base.slice(0, SLUG_MAX_LENGTH - 4).replace(/-+$/, "");
+  const taken = await findTakenSlugs(prefix, postId);
+  if (!taken.has(base)) {
+    return base;
+  }
+
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${prefix}-${suffix}`;
+    if (!taken.has(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+// Keeps a replaced slug so /blog/<old slug> can redirect to the new one
+export async function recordSlugChange(postId: string, oldSlug: string, newSlug: string) {
+  const { error } = await supabaseAdmin
+    .from(TABLES.BLOG_POST_SLUG_HISTORY)
+    .upsert({ slug: oldSlug, post_id: postId }, { onConflict: "slug" });
+  if (error) {
+    throw error;
+  }
+
+  // A post going back to one of its old slugs no longer needs that redirect
+  const { error: deleteError } = await supabaseAdmin
+    .from(TABLES.BLOG_POST_SLUG_HISTORY)
+    .delete()
+    .eq("slug", newSlug)
+    .eq("post_id", postId);
+  if (deleteError) {
+    throw deleteError;
+  }
+}
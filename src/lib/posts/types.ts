@@ -0,0 +1,79 @@
+import type { ContentFormat } from "@/lib/content/render";
+import type { ReactionCounts } from "@/lib/posts/reactions";
+
+// A row of the blog_posts table (see the schema in lib/supabase.ts)
+export interface BlogPostRow {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string;
+  content: string;
+  content_format: ContentFormat;
+  author: string;
+  // The profile in the authors table, null for posts with only a name
+  author_id: string | null;
+  date: string;
+  read_time: string;
+  categories: string[];
+  tags: string[];
+  image: string;
+  // The uploaded cover the image is, with copies of its AVIF version and
+  // blur placeholder (see lib/media/store.ts). Null for images given as a
+  // URL.
+  image_asset_id: string | null;
+  image_avif: string | null;
+  image_placeholder: string | null;
+  featured: boolean;
+  status: string;
+  publish_at: string | null;
+  created_by: string | null;
+  // Kept up to date by /api/posts/<id>/views and /reactions (see
+  // lib/posts/engagement.ts), never edited through the dashboard
+  view_count: number;
+  reaction_counts: ReactionCounts;
+  created_at: string;
+  updated_at: string;
+}
+
+// What listings show of a post, without the content
+export type PostSummary = Pick<
+  BlogPostRow,
+  | "id"
+  | "slug"
+  | "title"
+  | "excerpt"
+  | "author"
+  | "date"
+  | "read_time"
+  | "categories"
+  | "tags"
+  | "image"
+  | "image_avif"
+  | "image_placeholder"
+  | "featured"
+  | "view_count"
+  | "reaction_counts"
+>;
+
+export const POST_SUMMARY_COLUMNS =
+  "id, slug, title, excerpt, author, date, read_time, categories, tags, image, image_avif, image_placeholder, featured, view_count, reaction_counts";
+
+// The editable fields of a post as they were at one save
+export type PostSnapshot = Pick<
+  BlogPostRow,
+  "title" | "excerpt" | "content" | "content_format" | "author" | "author_id" | "categories" | "tags" | "image" | "image_asset_id" | "featured" | "status" | "publish_at"
+>;
+
+export type RevisionAction = "create" | "edit" | "restore" | "baseline" | "import";
+
+// A row of the blog_post_revisions table
+export interface PostRevisionRow {
+  id: string;
+  post_id: string;
+  snapshot: PostSnapshot;
+  action: RevisionAction;
+  restored_from: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
@@ -0,0 +1,47 @@
+// The service pages under /services, for the sitemap and structured data.
+// The header, footer and /services page keep their own copy for now.
+export interface ServicePage {
+  name: string;
+  path: string;
+  description: string;
+}
+
+export const SERVICE_PAGES: ServicePage[] = [
+  {
+    name: "Digital Marketing",
+    path: "/services/digital-marketing",
+    description:
+      "Drive growth and engagement with our comprehensive digital marketing solutions designed to increase your online presence and attract qualified leads.",
+  },
+  {
+    name: "Web Development",
+    path: "/services/web-development",
+    description:
+      "Professional web development solutions that combine stunning design with powerful functionality to create exceptional digital experiences.",
+  },
+  {
+    name: "UI/UX Design",
+    path: "/services/ui-ux-design",
+    description:
+      "Create meaningful digital experiences that delight users and drive business results through our expert UI/UX design services.",
+  },
+  {
+    name: "Branding",
+    path: "/services/Branding",
+    description: "Build a strong, memorable brand that captures hearts, drives loyalty, and fuels business growth.",
+  },
+  {
+    name: "Cyber Security",
+    path: "/services/cyber-security",
+    description:
+      "Protect your business from evolving digital threats with our comprehensive cyber security solutions designed for the modern enterprise.",
+  },
+];
+
+export function getServicePage(path: string) {
+  const service = SERVICE_PAGES.find((page) => page.path === path);
+  if (!service) {
+    throw new Error(`Unknown service page ${path}`);
+  }
+  return service;
+}
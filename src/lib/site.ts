@@ -0,0 +1,12 @@
+// Public address of the site, used for canonical URLs, feeds and anything
+// else that has to link back from outside the page it is on
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || "https://hacks4u.com").replace(/\/+$/, "");
+
+export const SITE_NAME = "Hacks4U";
+
+export const SITE_DESCRIPTION =
+  "High-quality digital marketing services and IT solutions to help your business thrive online.";
+
+export function absoluteUrl(path: string) {
+  return new URL(path, `${SITE_URL}/`).toString();
+}
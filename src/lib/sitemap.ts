@@ -0,0 +1,98 @@
+import { listAuthors } from "@/lib/authors/queries";
+import { authorHref, categoryHref, tagHref } from "@/lib/posts/listing";
+import { countLivePosts, listCategories, listLivePostUrls, listTags } from "@/lib/posts/queries";
+import { SERVICE_PAGES } from "@/lib/services";
+import { absoluteUrl } from "@/lib/site";
+import { escapeXml } from "@/lib/xml";
+
+// /sitemap.xml lists every public page while they fit in one file. Past
+// SITEMAP_PAGE_SIZE URLs it becomes a sitemap index pointing at
+// /sitemap/0.xml, /sitemap/1.xml and so on.
+
+// Well under the 50,000 URLs the protocol allows, so each file stays quick
+// to generate
+export const SITEMAP_PAGE_SIZE = 10000;
+
+const STATIC_PATHS = [
+  "/",
+  "/about",
+  "/services",
+  ...SERVICE_PAGES.map((service) => service.path),
+  "/blog",
+  "/FAQ",
+  "/contact",
+  "/terms",
+  "/privacy",
+];
+
+interface SitemapEntry {
+  path: string;
+  lastModified?: string;
+}
+
+// The pages before the posts: static ones, then the category, tag and
+// author archives
+async function listPagePaths() {
+  const [categories, tags, authors] = await Promise.all([listCategories(), listTags(), listAuthors()]);
+  return [
+    ...STATIC_PATHS,
+    ...categories.map((category) => categoryHref(category.name)),
+    ...tags.map((tag) => tagHref(tag.name)),
+    ...authors.map((author) => authorHref(author.slug)),
+  ];
+}
+
+export async function countSitemapPages() {
+  const [pagePaths, postCount] = await Promise.all([listPagePaths(), countLivePosts()]);
+  return Math.max(1, Math.ceil((pagePaths.length + postCount) / SITEMAP_PAGE_SIZE));
+}
+
+// The entries of one sitemap file: the pages first, then posts
+async function getSitemapEntries(page: number): Promise<SitemapEntry[]> {
+  const start = page * SITEMAP_PAGE_SIZE;
+  const end = start + SITEMAP_PAGE_SIZE;
+  const pagePaths = await listPagePaths();
+  const entries: SitemapEntry[] = pagePaths.slice(start, end).map((path) => ({ path }));
+
+  const postStart = Math.max(0, start - pagePaths.length);
+  const postEnd = end - pagePaths.length;
+  if (postEnd > postStart) {
+    const posts = await listLivePostUrls(postStart, postEnd - postStart);
+    for (const post of posts) {
+      entries.push({ path: `/blog/${post.slug}`, lastModified: post.updated_at });
+    }
+  }
+  return entries;
+}
+
+export async function renderSitemap(page: number) {
+  const entries = await getSitemapEntries(page);
+  const urls = entries.map((entry) =>
+    entry.lastModified
+      ? `<url><loc>${escapeXml(absoluteUrl(entry.path))}</loc><lastmod>${new Date(entry.lastModified).toISOString()}</lastmod></url>`
+      : `<url><loc>${escapeXml(absoluteUrl(entry.path))}</loc></url>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join("\n")}
+</urlset>
+`;
+}
+
+export function renderSitemapIndex(pages: number) {
+  const sitemaps = Array.from(
+    { length: pages },
+    (_, page) => `<sitemap><loc>${escapeXml(absoluteUrl(`/sitemap/${page}.xml`))}</loc></sitemap>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps.join("\n")}
+</sitemapindex>
+`;
+}
+
+export function xmlResponse(body: string) {
+  return new Response(body, { headers: { "Content-Type": "application/xml; charset=utf-8" } });
+}
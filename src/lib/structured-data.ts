@@ -0,0 +1,107 @@
+import type { AuthorRow } from "@/lib/authors/types";
+import { contactDetails } from "@/lib/contact";
+import { postShareImagePath } from "@/lib/og";
+import { authorHref } from "@/lib/posts/listing";
+import type { BlogPostRow } from "@/lib/posts/types";
+import type { ServicePage } from "@/lib/services";
+import { SITE_DESCRIPTION, SITE_NAME, SITE_URL, absoluteUrl } from "@/lib/site";
+
+// schema.org JSON-LD for search engines, rendered with <JsonLd>. Everything
+// points back at the organization through its @id rather than repeating it.
+
+const ORGANIZATION_ID = `${SITE_URL}/#organization`;
+
+// The business behind the site, from the contact details
+export function organizationJsonLd() {
+  const { postalAddress, openingHours } = contactDetails;
+  return {
+    "@context": "https://schema.org",
+    "@type": ["Organization", "LocalBusiness"],
+    "@id": ORGANIZATION_ID,
+    name: SITE_NAME,
+    description: SITE_DESCRIPTION,
+    url: SITE_URL,
+    email: contactDetails.email,
+    telephone: contactDetails.phone.replace(/\s+/g, ""),
+    address: { "@type": "PostalAddress", ...postalAddress },
+    openingHoursSpecification: {
+      "@type": "OpeningHoursSpecification",
+      dayOfWeek: openingHours.days,
+      opens: openingHours.opens,
+      closes: openingHours.closes,
+    },
+    sameAs: contactDetails.socialProfiles,
+  };
+}
+
+// Points at the Person on the author's profile page
+function personReference(author: AuthorRow) {
+  const url = absoluteUrl(authorHref(author.slug));
+  return { "@type": "Person", "@id": `${url}#person`, name: author.name, url };
+}
+
+// A person with a profile on the blog, the author of their posts
+export function personJsonLd(author: AuthorRow) {
+  return {
+    "@context": "https://schema.org",
+    ...personReference(author),
+    jobTitle: author.role ?? undefined,
+    description: author.bio || undefined,
+    image: author.avatar ? absoluteUrl(author.avatar) : undefined,
+    sameAs: author.social_links,
+    worksFor: { "@id": ORGANIZATION_ID },
+  };
+}
+
+// author is the profile of the post's author, when it has one
+export function blogPostingJsonLd(post: BlogPostRow, author: AuthorRow | null = null) {
+  const url = absoluteUrl(`/blog/${post.slug}`);
+  return {
+    "@context": "https://schema.org",
+    "@type": "BlogPosting",
+    "@id": `${url}#article`,
+    mainEntityOfPage: url,
+    url,
+    headline: post.title,
+    description: post.excerpt,
+    image: [post.image ? absoluteUrl(post.image) : null, absoluteUrl(postShareImagePath(post.slug, post.updated_at))].filter(
+      Boolean,
+    ),
+    datePublished: new Date(post.publish_at ?? post.date).toISOString(),
+    dateModified: new Date(post.updated_at).toISOString(),
+    author: author ? personReference(author) : { "@type": "Person", name: post.author },
+    publisher: { "@id": ORGANIZATION_ID },
+    articleSection: post.categories,
+    keywords: post.tags.join(", "),
+  };
+}
+
+export function serviceJsonLd(service: ServicePage) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Service",
+    "@id": `${absoluteUrl(service.path)}#service`,
+    name: service.name,
+    serviceType: service.name,
+    description: service.description,
+    url: absoluteUrl(service.path),
+    provider: { "@id": ORGANIZATION_ID },
+  };
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+export function faqPageJsonLd(faqs: FaqItem[]) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "FAQPage",
+    mainEntity: faqs.map((faq) => ({
+      "@type": "Question",
+      name: faq.question,
+      acceptedAnswer: { "@type": "Answer", text: faq.answer },
+    })),
+  };
+}
@@ -0,0 +1,17 @@
+import { createClient } from "@supabase/supabase-js";
+
+// Server-only Supabase client. It uses the service role key, which bypasses
+// row level security, so it must never be imported from a client component.
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error("Supabase service role credentials are missing in environment variables");
+}
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+  },
+});
@@ -20,30 +20,330 @@ export const supabase = createClient(supabaseUrl as string, supabaseAnonKey as s
 export const TABLES = {
   BLOG_POSTS: 'blog_posts',
   SUBSCRIBERS: 'subscribers',
+  ADMIN_USERS: 'admin_users',
+  ADMIN_SESSIONS: 'admin_sessions',
+  ADMIN_LOGIN_ATTEMPTS: 'admin_login_attempts',
+  BLOG_POST_REVISIONS: 'blog_post_revisions',
+  BLOG_POST_SLUG_HISTORY: 'blog_post_slug_history',
+  AUTHORS: 'authors',
+  BLOG_COMMENTS: 'blog_comments',
+  BLOG_POST_VIEWS: 'blog_post_views',
+  BLOG_POST_REACTIONS: 'blog_post_reactions',
+  MEDIA_ASSETS: 'media_assets',
 };
 
 // Sample blog post schema in Supabase:
 /*
+-- Dashboard accounts. role is one of author, editor or admin (see
+-- lib/auth/roles.ts). Only the service role key (see supabase-admin.ts)
+-- should be able to read or write the admin_* tables.
+CREATE TABLE admin_users (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  -- Stored lowercase, logins look them up that way (see lib/auth/users.ts).
+  -- To update an existing table, once no two usernames differ only in case:
+  --   UPDATE admin_users SET username = lower(username);
+  --   CREATE UNIQUE INDEX admin_users_username_lower_idx ON admin_users (lower(username));
+  username TEXT NOT NULL UNIQUE,
+  display_name TEXT,
+  password_hash TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'author' CHECK (role IN ('author', 'editor', 'admin')),
+  disabled BOOLEAN DEFAULT FALSE,
+  -- Two-factor authentication (see lib/auth/totp.ts). recovery_codes holds
+  -- SHA-256 hashes, the codes themselves are only shown once.
+  totp_enabled BOOLEAN DEFAULT FALSE,
+  totp_secret TEXT,
+  totp_pending_secret TEXT,
+  totp_last_step BIGINT,
+  recovery_codes TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE UNIQUE INDEX admin_users_username_lower_idx ON admin_users (lower(username));
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+-- The people posts are written by, /blog/author/<slug>. social_links are
+-- profile URLs (see lib/authors/social.ts). Public, the blog reads them
+-- with the anon key. The team on /about links to these, so add them with:
+--   INSERT INTO authors (slug, name, role, avatar) VALUES
+--     ('aryan-thakur', 'Aryan Thakur', 'CEO & Founder', '/hacks_v5_images/aryannew.jpeg'),
+--     ('antra', 'Antra', 'Digital Marketing Head', '/hacks_v5_images/antra.jpeg'),
+--     ('abhishek-rai', 'Abhishek Rai', 'Lead Developer', '/hacks_v5_images/Abhishek.jpeg'),
+--     ('vimal-singh', 'Vimal Singh', 'CTO', '/hacks_v5_images/vimal.jpeg');
+CREATE TABLE authors (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  role TEXT,
+  bio TEXT NOT NULL DEFAULT '',
+  avatar TEXT,
+  social_links TEXT[] NOT NULL DEFAULT '{}',
+  -- Private, where comment notifications go (see lib/comments/notify.ts).
+  -- Added after the table, to update a database that does not have it:
+  --   ALTER TABLE authors ADD COLUMN email TEXT;
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+ALTER TABLE authors ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read authors" ON authors FOR SELECT USING (true);
+-- Every column but the email
+REVOKE SELECT ON authors FROM anon;
+GRANT SELECT (id, slug, name, role, bio, avatar, social_links, created_at, updated_at) ON authors TO anon;
+
+-- Uploaded images (see lib/media/). Covers are cropped to 16:9 and stored
+-- as WebP (url) and AVIF (avif_url), placeholder is a tiny blurred WebP as
+-- a data URL. storage is where the files are: supabase for the bucket named
+-- in MEDIA_BUCKET, local for public/uploads in development. The bucket has
+-- to be public, create it in the dashboard or with:
+--   INSERT INTO storage.buckets (id, name, public) VALUES ('media', 'media', true);
+CREATE TABLE media_assets (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  storage TEXT NOT NULL CHECK (storage IN ('supabase', 'local')),
+  paths TEXT[] NOT NULL,
+  url TEXT NOT NULL,
+  avif_url TEXT NOT NULL,
+  placeholder TEXT NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  original_name TEXT,
+  size_bytes INTEGER NOT NULL,
+  created_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+ALTER TABLE media_assets ENABLE ROW LEVEL SECURITY;
+
 CREATE TABLE blog_posts (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  -- /blog/<slug>, see lib/posts/slug.ts. When adding the column to an
+  -- existing table, fill it from the titles before making it NOT NULL:
+  --   ALTER TABLE blog_posts ADD COLUMN slug TEXT UNIQUE;
+  --   UPDATE blog_posts SET slug = trim(both '-' from left(regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g'), 80)) || '-' || left(id::text, 8);
+  --   ALTER TABLE blog_posts ALTER COLUMN slug SET NOT NULL;
+  slug TEXT NOT NULL UNIQUE,
   title TEXT NOT NULL,
   excerpt TEXT NOT NULL,
   content TEXT NOT NULL,
+  -- markdown (with the components in lib/content/markdown.ts) or html for
+  -- posts written before Markdown support. When adding the column to an
+  -- existing table, mark the old rows as html:
+  --   ALTER TABLE blog_posts ADD COLUMN content_format TEXT NOT NULL DEFAULT 'html';
+  --   ALTER TABLE blog_posts ALTER COLUMN content_format SET DEFAULT 'markdown';
+  content_format TEXT NOT NULL DEFAULT 'markdown' CHECK (content_format IN ('markdown', 'html')),
+  -- The author's name, kept in step with author_id when the post has a
+  -- profile (see lib/authors/store.ts). When adding the column to an
+  -- existing table, link the posts by name:
+  --   ALTER TABLE blog_posts ADD COLUMN author_id UUID REFERENCES authors(id) ON DELETE SET NULL;
+  --   UPDATE blog_posts p SET author_id = a.id FROM authors a WHERE lower(a.name) = lower(p.author);
   author TEXT NOT NULL,
+  author_id UUID REFERENCES authors(id) ON DELETE SET NULL,
   date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   read_time TEXT NOT NULL,
   categories TEXT[] NOT NULL,
   tags TEXT[] NOT NULL,
   image TEXT NOT NULL,
+  -- The upload the image is, with copies of its AVIF version and
+  -- placeholder for the listings (see lib/media/store.ts). Null for images
+  -- given as a URL. To add them to an existing table:
+  --   ALTER TABLE blog_posts ADD COLUMN image_asset_id UUID REFERENCES media_assets(id) ON DELETE SET NULL;
+  --   ALTER TABLE blog_posts ADD COLUMN image_avif TEXT;
+  --   ALTER TABLE blog_posts ADD COLUMN image_placeholder TEXT;
+  image_asset_id UUID REFERENCES media_assets(id) ON DELETE SET NULL,
+  image_avif TEXT,
+  image_placeholder TEXT,
   featured BOOLEAN DEFAULT FALSE,
+  -- draft, scheduled, published or archived (see lib/posts/status.ts)
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'published', 'archived')),
+  publish_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  -- Counted from blog_post_views and blog_post_reactions (see
+  -- lib/posts/engagement.ts) and copied here for the listings. To add them
+  -- to an existing table:
+  --   ALTER TABLE blog_posts ADD COLUMN view_count INTEGER NOT NULL DEFAULT 0;
+  --   ALTER TABLE blog_posts ADD COLUMN reaction_counts JSONB NOT NULL DEFAULT '{}';
+  view_count INTEGER NOT NULL DEFAULT 0,
+  reaction_counts JSONB NOT NULL DEFAULT '{}',
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
+CREATE INDEX blog_posts_live_idx ON blog_posts (status, publish_at DESC);
+CREATE INDEX blog_posts_author_idx ON blog_posts (author_id);
+
+-- The anon key may only read live posts, everything else goes through the
+-- admin API with the service role key
+ALTER TABLE blog_posts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read live posts" ON blog_posts
+  FOR SELECT USING (status IN ('published', 'scheduled') AND publish_at <= NOW());
+
+-- Full text search for /api/search (lib/posts/search.ts). The title weighs
+-- most, then tags, author and excerpt, then the content. array_to_string is
+-- not immutable, so generated columns need this wrapper.
+CREATE FUNCTION immutable_array_to_string(TEXT[]) RETURNS TEXT
+  LANGUAGE sql IMMUTABLE AS $$ SELECT array_to_string($1, ' ') $$;
+ALTER TABLE blog_posts ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', title), 'A') ||
+  setweight(to_tsvector('english', immutable_array_to_string(tags) || ' ' || author || ' ' || excerpt), 'B') ||
+  setweight(to_tsvector('english', content), 'C')
+) STORED;
+CREATE INDEX blog_posts_search_idx ON blog_posts USING GIN (search_vector);
+
+-- search_query is a to_tsquery expression such as 'seo:* & guid:*', built
+-- by lib/posts/search.ts. category_names, when set, keeps posts in any of
+-- them, the spellings of one category.
+-- Runs with the caller's rights, so the anon key still only finds live
+-- posts. Snippets mark matches with <mark>, markup is stripped from the
+-- content first. Results carry the view and reaction counts and the cover's
+-- AVIF version and placeholder for the cards.
+-- To update a database that has an earlier version, DROP FUNCTION
+-- search_blog_posts(TEXT, INT) or search_blog_posts(TEXT, INT, INT, TEXT)
+-- first, the last argument used to be a single category.
+CREATE FUNCTION search_blog_posts(
+  search_query TEXT,
+  result_limit INT DEFAULT 20,
+  result_offset INT DEFAULT 0,
+  category_names TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID, slug TEXT, title TEXT, excerpt TEXT, author TEXT, date TIMESTAMP WITH TIME ZONE,
+  read_time TEXT, categories TEXT[], tags TEXT[], image TEXT, image_avif TEXT, image_placeholder TEXT, featured BOOLEAN,
+  view_count INTEGER, reaction_counts JSONB, rank REAL, title_highlight TEXT, snippet TEXT
+)
+LANGUAGE sql STABLE AS $$
+  SELECT p.id, p.slug, p.title, p.excerpt, p.author, p.date, p.read_time, p.categories, p.tags, p.image,
+    p.image_avif, p.image_placeholder, p.featured, p.view_count, p.reaction_counts,
+    ts_rank_cd(p.search_vector, q.query, 32) AS rank,
+    ts_headline('english', p.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline(
+      'english',
+      regexp_replace(p.excerpt || ' ' || p.content, '<[^>]*>|[#*_`>|~\[\]]+', ' ', 'g'),
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM blog_posts p, to_tsquery('english', search_query) AS q(query)
+  WHERE p.search_vector @@ q.query
+    AND p.status IN ('published', 'scheduled') AND p.publish_at <= NOW()
+    AND (category_names IS NULL OR p.categories && category_names)
+  ORDER BY rank DESC, p.publish_at DESC, p.id
+  LIMIT result_limit OFFSET result_offset;
+$$;
+
+-- A full copy of a post after every save (see lib/posts/revisions.ts).
+-- action is create, edit, restore, import (scripts/seed-posts.ts) or
+-- baseline (the state of a post from before revisions were kept).
+CREATE TABLE blog_post_revisions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  snapshot JSONB NOT NULL,
+  action TEXT NOT NULL,
+  restored_from UUID REFERENCES blog_post_revisions(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE INDEX blog_post_revisions_post_idx ON blog_post_revisions (post_id, created_at DESC);
+ALTER TABLE blog_post_revisions ENABLE ROW LEVEL SECURITY;
 
+-- Slugs a post had before it was renamed, /blog/<old slug> redirects to the
+-- current one. Public, the post page reads it with the anon key.
+CREATE TABLE blog_post_slug_history (
+  slug TEXT PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+ALTER TABLE blog_post_slug_history ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read old slugs" ON blog_post_slug_history FOR SELECT USING (true);
+
+-- One row per post and browser session that viewed it, so reloading a post
+-- counts once. session_id is a random id the browser keeps for the session.
+-- ip_hash is a SHA-256 of the reader's address for the rate limit in
+-- lib/posts/engagement.ts, the address itself is not stored. Only the
+-- service role writes these, through /api/posts/<id>/views. To add it to an
+-- existing table:
+--   ALTER TABLE blog_post_views ADD COLUMN ip_hash TEXT;
+--   CREATE INDEX blog_post_views_ip_idx ON blog_post_views (ip_hash, created_at);
+CREATE TABLE blog_post_views (
+  post_id UUID NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  ip_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (post_id, session_id)
+);
+CREATE INDEX blog_post_views_ip_idx ON blog_post_views (ip_hash, created_at);
+ALTER TABLE blog_post_views ENABLE ROW LEVEL SECURITY;
+
+-- Emoji reactions (see lib/posts/reactions.ts), one of each per reader.
+-- reader_id is a random id kept in the reader's browser.
+CREATE TABLE blog_post_reactions (
+  post_id UUID NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  reader_id TEXT NOT NULL,
+  reaction TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (post_id, reader_id, reaction)
+);
+ALTER TABLE blog_post_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Reader comments (see lib/comments/). parent_id is the comment replied to,
+-- depth 0 for top level comments and at most 2. status is pending,
+-- approved, rejected or spam. The anon key reads approved comments without
+-- the email, new comments go through /api/comments.
+CREATE TABLE blog_comments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES blog_comments(id) ON DELETE CASCADE,
+  depth SMALLINT NOT NULL DEFAULT 0 CHECK (depth BETWEEN 0 AND 2),
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'spam')),
+  spam_reasons TEXT[] NOT NULL DEFAULT '{}',
+  ip TEXT,
+  user_agent TEXT,
+  moderated_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE INDEX blog_comments_post_idx ON blog_comments (post_id, status, created_at);
+CREATE INDEX blog_comments_status_idx ON blog_comments (status, created_at DESC);
+CREATE INDEX blog_comments_ip_idx ON blog_comments (ip, created_at DESC);
+ALTER TABLE blog_comments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read approved comments" ON blog_comments
+  FOR SELECT USING (status = 'approved');
+REVOKE SELECT ON blog_comments FROM anon;
+GRANT SELECT (id, post_id, parent_id, depth, name, body, created_at) ON blog_comments TO anon;
+
+-- Newsletter subscribers. Visitors may only sign up with the anon key, a
+-- repeated email fails on the unique constraint. Listing and removing them
+-- goes through /api/admin/subscribers with the service role key.
 CREATE TABLE subscribers (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   email TEXT NOT NULL UNIQUE,
   date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
+ALTER TABLE subscribers ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can subscribe" ON subscribers FOR INSERT TO anon WITH CHECK (true);
+
+-- Server-side admin sessions
+CREATE TABLE admin_sessions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  ip TEXT,
+  user_agent TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+ALTER TABLE admin_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Every login attempt, also used to throttle logins (see lib/auth/rate-limit.ts)
+CREATE TABLE admin_login_attempts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  username TEXT NOT NULL,
+  ip TEXT,
+  user_agent TEXT,
+  outcome TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE INDEX admin_login_attempts_username_idx ON admin_login_attempts (username, created_at DESC);
+CREATE INDEX admin_login_attempts_ip_idx ON admin_login_attempts (ip, created_at DESC);
+ALTER TABLE admin_login_attempts ENABLE ROW LEVEL SECURITY;
 */
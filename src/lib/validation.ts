@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import type { ZodError } from "zod";
+
+// 400 response for a failed zod parse. `message` is the first problem so the
+// dashboard can toast it, `errors` has every problem keyed by field.
+export function validationErrorResponse(error: ZodError) {
+  const issue = error.issues[0];
+  return NextResponse.json(
+    {
+      success: false,
+      message: issue?.message || "Invalid request",
+      errors: error.flatten().fieldErrors,
+    },
+    { status: 400 },
+  );
+}
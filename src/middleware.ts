@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { SESSION_COOKIE, verifySession } from "@/lib/auth/session"
+import { BLOG_VIEW_PATH, isDefaultBlogView, parseBlogView } from "@/lib/posts/listing"
+
+const LOGIN_PATH = "/admin"
+
+// /blog is static, so it cannot read its query string. Views that need it
+// are rendered by BLOG_VIEW_PATH under the same address, which is not
+// linked to on its own.
+function routeBlogListing(req: NextRequest) {
+  const { pathname, search, searchParams } = req.nextUrl
+  if (pathname === BLOG_VIEW_PATH) {
+    return NextResponse.redirect(new URL(`/blog${search}`, req.url), 308)
+  }
+  if (isDefaultBlogView(parseBlogView(Object.fromEntries(searchParams)))) {
+    return NextResponse.next()
+  }
+  return NextResponse.rewrite(new URL(`${BLOG_VIEW_PATH}${search}`, req.url))
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl
+
+  if (pathname === "/blog" || pathname === BLOG_VIEW_PATH) {
+    return routeBlogListing(req)
+  }
+
+  // The login page itself is public
+  if (pathname === LOGIN_PATH) {
+    return NextResponse.next()
+  }
+
+  // Only the signature and expiry are checked here. Route handlers call
+  // getAdminSession, which also rejects sessions revoked by a logout.
+  const session = await verifySession(req.cookies.get(SESSION_COOKIE)?.value)
+  if (session) {
+    return NextResponse.next()
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  const loginUrl = new URL(LOGIN_PATH, req.url)
+  loginUrl.searchParams.set("next", pathname)
+  const response = NextResponse.redirect(loginUrl)
+  // Drop an expired or tampered cookie so the browser stops sending it
+  if (req.cookies.has(SESSION_COOKIE)) {
+    response.cookies.delete(SESSION_COOKIE)
+  }
+  return response
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*", "/blog", "/blog-view"],
+}